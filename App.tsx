@@ -1,9 +1,85 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { buildGltf, buildGlb, type Shape } from './utils/gltfBuilder';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { buildGltf, buildGlb, buildGltfFiles, DEFAULT_LOD_OPTIONS, DEFAULT_QUANTIZATION, type Shape, type GltfExportOptions } from './utils/gltfBuilder';
+import { createZip } from './utils/zip';
+import { optimizeShapes } from './utils/meshOptimizer';
+import { batchShapes, countDrawCalls } from './utils/batching';
+import { validateGlb, validateGltf, type ValidationReport } from './utils/gltfValidator';
 import { parseGeoJsonToShapes, type CustomModels, type CustomModelData } from './utils/geojsonParser';
+import { parseGltf, parseGltfScene, parseGlbScene } from './utils/glbParser';
+import type { ModelFiles } from './utils/modelFiles';
 import { DownloadIcon, UploadIcon, FolderOpenIcon, TrashIcon } from './components/icons';
 import { createCube, createPyramid, createSphere } from './utils/geometry';
+import { createBobbing, createTurntable } from './utils/animation';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatSavings = (before: number, after: number) =>
+  before > 0 ? `${Math.round((1 - after / before) * 100)}% smaller` : 'no change';
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Runs a scene processing step during render, returning its error instead of throwing
+const runStep = <T,>(step: () => T): { result: T | null; error: string | null } => {
+  try {
+    return { result: step(), error: null };
+  } catch (err) {
+    return { result: null, error: errorMessage(err) };
+  }
+};
+
+// A picked or dropped file with its path inside the selection, so dropped folders keep their structure
+interface PickedFile {
+  path: string;
+  file: File;
+}
+
+const pickedFromFileList = (files: FileList | null): PickedFile[] =>
+  Array.from(files || []).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+
+const readFileEntry = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Recursively collects the files of dropped folders; readEntries returns directories in batches
+const readDroppedEntry = async (entry: FileSystemEntry): Promise<PickedFile[]> => {
+  if (entry.isFile) {
+    return [{ path: entry.fullPath.replace(/^\//, ''), file: await readFileEntry(entry as FileSystemFileEntry) }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const picked: PickedFile[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return picked;
+    for (const child of batch) picked.push(...await readDroppedEntry(child));
+  }
+};
+
+const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const picked = await Promise.all(entries.map(readDroppedEntry));
+  return picked.flat();
+};
+
+// Finds the one model file in a selection and loads the other files, keyed by their path
+// relative to it so the model's URIs resolve
+const readModelSelection = async (picked: PickedFile[], extensions: string[]): Promise<{ main: File; files: ModelFiles }> => {
+  const candidates = picked.filter(p => extensions.some(extension => p.path.toLowerCase().endsWith(extension)));
+  if (candidates.length !== 1) {
+    throw new Error(candidates.length === 0
+      ? `No ${extensions.join(' or ')} file found. Select it together with its .bin and image files, or drop its folder.`
+      : `Found several ${extensions.join(' or ')} files. Select or drop one at a time.`);
+  }
+  const main = candidates[0];
+  const baseDir = main.path.slice(0, main.path.lastIndexOf('/') + 1);
+  const files: ModelFiles = {};
+  for (const { path, file } of picked) {
+    if (file === main.file) continue;
+    files[path.startsWith(baseDir) ? path.slice(baseDir.length) : path] = await file.arrayBuffer();
+  }
+  return { main: main.file, files };
+};
 
 const App: React.FC = () => {
   const [sceneUrl, setSceneUrl] = useState<string | null>(null);
@@ -12,8 +88,17 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [sceneTitle, setSceneTitle] = useState<string>('Loading Initial Scene...');
   const [customModels, setCustomModels] = useState<CustomModels>({});
+  const [useInstancing, setUseInstancing] = useState<boolean>(false);
+  const [optimizeMeshes, setOptimizeMeshes] = useState<boolean>(false);
+  const [useLod, setUseLod] = useState<boolean>(false);
+  const [batchStatic, setBatchStatic] = useState<boolean>(false);
+  const [quantize, setQuantize] = useState<boolean>(false);
+  const [animateGeoJson, setAnimateGeoJson] = useState<boolean>(false);
+  // Built file waiting for the user to review its validation report
+  const [pendingExport, setPendingExport] = useState<{ blob: Blob; filename: string; report: ValidationReport } | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
 
   // Generate a default scene on initial load
   useEffect(() => {
@@ -24,9 +109,9 @@ const App: React.FC = () => {
         const sphere = createSphere(0.8);
 
         const shapes: Shape[] = [
-          { geometry: cube, translation: [-2.5, 0, 0], color: [1, 0.2, 0.2, 1] }, // Red
-          { geometry: pyramid, translation: [0, 0, 0], color: [0.2, 1, 0.2, 1] }, // Green
-          { geometry: sphere, translation: [2.5, 0, 0], color: [0.2, 0.2, 1, 1] }, // Blue
+          { geometry: cube, translation: [-2.5, 0, 0], color: [1, 0.2, 0.2, 1], animations: [createTurntable()] }, // Red
+          { geometry: pyramid, translation: [0, 0, 0], color: [0.2, 1, 0.2, 1], animations: [createTurntable(undefined, { period: 12 })] }, // Green
+          { geometry: sphere, translation: [2.5, 0, 0], color: [0.2, 0.2, 1, 1], animations: [createBobbing([2.5, 0, 0])] }, // Blue
         ];
         
         setSceneShapes(shapes);
@@ -74,7 +159,7 @@ const App: React.FC = () => {
 
     try {
       const geojsonText = await file.text();
-      const shapes = await parseGeoJsonToShapes(geojsonText, customModels);
+      const shapes = await parseGeoJsonToShapes(geojsonText, customModels, { animated: animateGeoJson });
       
       if (shapes.length === 0) {
           throw new Error("The GeoJSON file did not result in any visible 3D objects.");
@@ -98,7 +183,7 @@ const App: React.FC = () => {
           fileInputRef.current.value = '';
       }
     }
-  }, [customModels]);
+  }, [customModels, animateGeoJson]);
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
@@ -128,6 +213,9 @@ const App: React.FC = () => {
                 const existing = { ...prev[type] };
                 delete existing.glb;
                 delete existing.glbFileName;
+                delete existing.gltf;
+                delete existing.gltfFiles;
+                delete existing.gltfFileName;
                 return {
                     ...prev,
                     [type]: {
@@ -142,6 +230,98 @@ const App: React.FC = () => {
     }
   };
   
+  // A .gltf arrives with its .bin buffers and images. The model is parsed right away to
+  // report missing files on upload.
+  const handleCustomGltfFiles = async (type: 'tree' | 'rock' | 'grass', picked: PickedFile[]) => {
+    try {
+      const { main, files } = await readModelSelection(picked, ['.gltf']);
+      const json = await main.text();
+      try {
+        await parseGltf(json, files);
+      } catch (err) {
+        throw new Error(`Could not load ${main.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      setError(null);
+      setCustomModels(prev => ({
+        ...prev,
+        [type]: {
+          gltf: json,
+          gltfFiles: files,
+          gltfFileName: main.name
+        }
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Texture images for an OBJ model, resolved by the paths its .mtl file references
+  const handleObjTextures = async (type: 'tree' | 'rock' | 'grass', picked: PickedFile[]) => {
+    if (picked.length === 0) return;
+    const files: ModelFiles = {};
+    for (const { path, file } of picked) {
+      files[path] = await file.arrayBuffer();
+    }
+    setCustomModels(prev => {
+      const existing = { ...prev[type] };
+      delete existing.glb;
+      delete existing.glbFileName;
+      delete existing.gltf;
+      delete existing.gltfFiles;
+      delete existing.gltfFileName;
+      return {
+        ...prev,
+        [type]: { ...existing, objFiles: files }
+      };
+    });
+  };
+
+  const handleSplitGroupsChange = (type: 'tree' | 'rock' | 'grass', split: boolean) => {
+    setCustomModels(prev => ({
+      ...prev,
+      [type]: { ...prev[type], objSplitGroups: split }
+    }));
+  };
+
+  // Opens a previously exported scene (.glb, or .gltf with its files) for further edits and re-export
+  const handleOpenScene = async (picked: PickedFile[]) => {
+    if (picked.length === 0) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { main, files } = await readModelSelection(picked, ['.glb', '.gltf']);
+      const shapes = main.name.toLowerCase().endsWith('.glb')
+        ? await parseGlbScene(await main.arrayBuffer())
+        : await parseGltfScene(await main.text(), files);
+
+      if (shapes.length === 0) {
+          throw new Error("The file's scene does not contain any nodes.");
+      }
+
+      setSceneShapes(shapes);
+      const gltfJsonString = buildGltf(shapes);
+      const blob = new Blob([gltfJsonString], { type: 'model/gltf+json' });
+      const url = URL.createObjectURL(blob);
+
+      setSceneUrl(prev => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+      setSceneTitle(`Scene: ${main.name}`);
+
+    } catch (err) {
+      console.error("Failed to open scene file:", err);
+      const message = err instanceof Error ? err.message : String(err);
+      setError(`Could not open the scene: ${message}`);
+    } finally {
+      setIsLoading(false);
+      if (sceneInputRef.current) {
+          sceneInputRef.current.value = '';
+      }
+    }
+  };
+
   const clearCustomModel = (type: 'tree' | 'rock' | 'grass') => {
       setCustomModels(prev => {
           const { [type]: _, ...rest } = prev;
@@ -149,28 +329,73 @@ const App: React.FC = () => {
       });
   };
 
-  const handleDownload = (format: 'gltf' | 'glb') => {
+  // Batched, welded and reordered copies of the scene used for downloads; the preview keeps the original
+  const batchStep = useMemo(
+    () => runStep(() => (batchStatic && sceneShapes.length ? batchShapes(sceneShapes) : sceneShapes)),
+    [batchStatic, sceneShapes]
+  );
+  const batched = batchStep.result ?? sceneShapes;
+  const optimizeStep = useMemo(
+    () => runStep(() => (optimizeMeshes && batched.length ? optimizeShapes(batched) : null)),
+    [optimizeMeshes, batched]
+  );
+  const optimized = optimizeStep.result;
+
+  useEffect(() => {
+    if (batchStep.error) setError(`Could not batch the scene: ${batchStep.error}`);
+  }, [batchStep]);
+  useEffect(() => {
+    if (optimizeStep.error) setError(`Could not optimize the scene: ${optimizeStep.error}`);
+  }, [optimizeStep]);
+
+  const triggerDownload = (blob: Blob, filename: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
+  const confirmDownload = () => {
+    if (!pendingExport) return;
+    triggerDownload(pendingExport.blob, pendingExport.filename);
+    setPendingExport(null);
+  };
+
+  // Builds the file and validates it; the download starts once the user has seen the report
+  const handleDownload = (format: 'gltf' | 'glb' | 'zip') => {
     if (!sceneShapes.length) return;
+    const exportShapes = optimized ? optimized.shapes : batched;
 
-    const triggerDownload = (blob: Blob, filename: string) => {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const exportOptions: GltfExportOptions = {
+        instancing: useInstancing,
+        instancingFallback: useInstancing,
+        lod: useLod ? DEFAULT_LOD_OPTIONS : undefined,
+        quantization: quantize ? DEFAULT_QUANTIZATION : undefined,
     };
 
-    if (format === 'gltf') {
-        const gltfJsonString = buildGltf(sceneShapes);
-        const blob = new Blob([gltfJsonString], { type: 'model/gltf+json' });
-        triggerDownload(blob, 'scene.gltf');
-    } else {
-        const glbBuffer = buildGlb(sceneShapes);
-        const blob = new Blob([glbBuffer], { type: 'model/gltf-binary' });
-        triggerDownload(blob, 'scene.glb');
+    try {
+      if (format === 'gltf') {
+          const gltfJsonString = buildGltf(exportShapes, exportOptions);
+          const blob = new Blob([gltfJsonString], { type: 'model/gltf+json' });
+          setPendingExport({ blob, filename: 'scene.gltf', report: validateGltf(JSON.parse(gltfJsonString)) });
+      } else if (format === 'zip') {
+          // scene.gltf + scene.bin + texture files, with relative URIs
+          const files = buildGltfFiles(exportShapes, exportOptions, 'scene');
+          const report = validateGltf(JSON.parse(new TextDecoder().decode(files[0].data)), [files[1].data]);
+          const blob = new Blob([createZip(files)], { type: 'application/zip' });
+          setPendingExport({ blob, filename: 'scene.zip', report });
+      } else {
+          const glbBuffer = buildGlb(exportShapes, exportOptions);
+          const blob = new Blob([glbBuffer], { type: 'model/gltf-binary' });
+          setPendingExport({ blob, filename: 'scene.glb', report: validateGlb(glbBuffer) });
+      }
+    } catch (err) {
+      console.error("Failed to export the scene:", err);
+      setError(`Export failed: ${errorMessage(err)}`);
     }
   };
 
@@ -211,6 +436,7 @@ const App: React.FC = () => {
                     ar-modes="webxr scene-viewer quick-look"
                     camera-controls
                     auto-rotate
+                    autoplay
                     shadow-intensity="1"
                     style={{ width: '100%', height: '100%', '--poster-color': 'transparent', borderRadius: '8px' }}
                     ></model-viewer>
@@ -233,8 +459,110 @@ const App: React.FC = () => {
                         <DownloadIcon className="w-5 h-5 mr-2" />
                         Download .glb
                     </button>
+                    <button
+                        onClick={() => handleDownload('zip')}
+                        className="w-full sm:w-auto inline-flex items-center justify-center bg-teal-600 hover:bg-teal-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-300 shadow-md"
+                        title="scene.gltf, scene.bin and texture files in a ZIP archive"
+                    >
+                        <DownloadIcon className="w-5 h-5 mr-2" />
+                        Download .zip
+                    </button>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Draws repeated models with EXT_mesh_gpu_instancing. A non-instanced fallback scene is included.">
+                        <input
+                            type="checkbox"
+                            checked={useInstancing}
+                            onChange={(e) => setUseInstancing(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        GPU instancing
+                    </label>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Welds duplicate vertices and reorders triangles and vertices for the GPU's vertex cache before export.">
+                        <input
+                            type="checkbox"
+                            checked={optimizeMeshes}
+                            onChange={(e) => setOptimizeMeshes(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Optimize meshes
+                    </label>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Adds simplified versions of each mesh (MSFT_lod) that viewers switch to as models get smaller on screen.">
+                        <input
+                            type="checkbox"
+                            checked={useLod}
+                            onChange={(e) => setUseLod(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Levels of detail
+                    </label>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Merges static shapes that share a material into one mesh, keeping per-feature IDs in a _FEATURE_ID_0 attribute.">
+                        <input
+                            type="checkbox"
+                            checked={batchStatic}
+                            onChange={(e) => setBatchStatic(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Batch static meshes
+                    </label>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Stores positions, normals, UVs and colors as normalized integers (KHR_mesh_quantization) for much smaller files.">
+                        <input
+                            type="checkbox"
+                            checked={quantize}
+                            onChange={(e) => setQuantize(e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Quantize attributes
+                    </label>
+                </div>
+            )}
+            {pendingExport && (
+                <div className="mt-6 bg-gray-900/60 border border-gray-600 rounded-lg p-4 text-left">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <p className={`font-semibold ${pendingExport.report.valid ? 'text-green-400' : 'text-red-400'}`}>
+                            {pendingExport.filename}: {pendingExport.report.valid ? 'valid glTF' : 'validation failed'}
+                            <span className="font-normal text-gray-400">
+                                {' '}({pendingExport.report.errorCount} errors, {pendingExport.report.warningCount} warnings, {pendingExport.report.infoCount} notes)
+                            </span>
+                        </p>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={confirmDownload}
+                                className="inline-flex items-center bg-cyan-600 hover:bg-cyan-700 text-white font-semibold py-1.5 px-4 rounded-lg transition-colors duration-300"
+                            >
+                                <DownloadIcon className="w-4 h-4 mr-2" />
+                                {pendingExport.report.valid ? 'Download' : 'Download anyway'}
+                            </button>
+                            <button
+                                onClick={() => setPendingExport(null)}
+                                className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 px-4 rounded-lg transition-colors duration-300"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                    {pendingExport.report.issues.length > 0 && (
+                        <ul className="mt-3 max-h-48 overflow-y-auto text-sm space-y-1 font-mono">
+                            {pendingExport.report.issues.map((issue, i) => (
+                                <li key={i} className={issue.severity === 'error' ? 'text-red-300' : issue.severity === 'warning' ? 'text-yellow-300' : 'text-gray-400'}>
+                                    [{issue.code}] {issue.pointer || '/'}: {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             )}
+            {batchStatic && sceneShapes.length > 0 && !isLoading && !error && (
+                <p className="text-center mt-3 text-sm text-gray-400">
+                    Draw calls {countDrawCalls(sceneShapes).toLocaleString()} → {countDrawCalls(batched).toLocaleString()}
+                </p>
+            )}
+            {optimized && !isLoading && !error && (
+                <p className="text-center mt-3 text-sm text-gray-400">
+                    Vertices {optimized.stats.vertexCountBefore.toLocaleString()} → {optimized.stats.vertexCountAfter.toLocaleString()}
+                    {' · '}Geometry data {formatBytes(optimized.stats.byteSizeBefore)} → {formatBytes(optimized.stats.byteSizeAfter)}
+                    {' '}({formatSavings(optimized.stats.byteSizeBefore, optimized.stats.byteSizeAfter)})
+                    {' · '}ACMR {optimized.stats.acmrBefore.toFixed(2)} → {optimized.stats.acmrAfter.toFixed(2)}
+                </p>
+            )}
         </main>
         
         <div className="my-8 border-t border-gray-700/50"></div>
@@ -260,6 +588,35 @@ const App: React.FC = () => {
                     <UploadIcon className="w-5 h-5 mr-2" />
                     Upload GeoJSON File
                 </button>
+                <label className="mt-3 inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Adds wind sway to trees and flowing water to rivers. Animated trees keep their own nodes, so GPU instancing and static batching skip them.">
+                    <input
+                        type="checkbox"
+                        checked={animateGeoJson}
+                        onChange={(e) => setAnimateGeoJson(e.target.checked)}
+                        className="accent-cyan-500"
+                    />
+                    Animate trees and rivers
+                </label>
+                {/* Saved scenes: a .glb, or a .gltf with its .bin and images (picked together or dropped as a folder) */}
+                <input
+                    type="file"
+                    accept=".glb,.gltf,.bin,.png,.jpg,.jpeg,.webp"
+                    multiple
+                    ref={sceneInputRef}
+                    onChange={(e) => handleOpenScene(pickedFromFileList(e.target.files))}
+                    className="hidden"
+                    disabled={isLoading}
+                />
+                <button
+                    onClick={() => sceneInputRef.current?.click()}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={async (e) => { e.preventDefault(); handleOpenScene(await readDroppedFiles(e.dataTransfer)); }}
+                    disabled={isLoading}
+                    className="mt-3 w-full max-w-xs bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                >
+                    <FolderOpenIcon className="w-5 h-5 mr-2" />
+                    Open Saved Scene (.glb / .gltf)
+                </button>
             </div>
 
             {/* Custom Models */}
@@ -271,18 +628,27 @@ const App: React.FC = () => {
                         type="tree"
                         modelData={customModels.tree}
                         onChange={handleCustomModelChange}
+                        onGltfFiles={handleCustomGltfFiles}
+                        onObjTextures={handleObjTextures}
+                        onSplitGroupsChange={handleSplitGroupsChange}
                         onClear={clearCustomModel}
                     />
                     <CustomModelUploader
                         type="rock"
                         modelData={customModels.rock}
                         onChange={handleCustomModelChange}
+                        onGltfFiles={handleCustomGltfFiles}
+                        onObjTextures={handleObjTextures}
+                        onSplitGroupsChange={handleSplitGroupsChange}
                         onClear={clearCustomModel}
                     />
                      <CustomModelUploader
                         type="grass"
                         modelData={customModels.grass}
                         onChange={handleCustomModelChange}
+                        onGltfFiles={handleCustomGltfFiles}
+                        onObjTextures={handleObjTextures}
+                        onSplitGroupsChange={handleSplitGroupsChange}
                         onClear={clearCustomModel}
                     />
                 </div>
@@ -303,15 +669,35 @@ interface CustomModelUploaderProps {
     type: 'tree' | 'rock' | 'grass';
     modelData?: CustomModelData;
     onChange: (type: 'tree' | 'rock' | 'grass', fileType: 'obj' | 'mtl' | 'glb', file: File | null) => void;
+    onGltfFiles: (type: 'tree' | 'rock' | 'grass', files: PickedFile[]) => void;
+    onObjTextures: (type: 'tree' | 'rock' | 'grass', files: PickedFile[]) => void;
+    onSplitGroupsChange: (type: 'tree' | 'rock' | 'grass', split: boolean) => void;
     onClear: (type: 'tree' | 'rock' | 'grass') => void;
 }
 
-const CustomModelUploader: React.FC<CustomModelUploaderProps> = ({ type, modelData, onChange, onClear }) => {
+const CustomModelUploader: React.FC<CustomModelUploaderProps> = ({ type, modelData, onChange, onGltfFiles, onObjTextures, onSplitGroupsChange, onClear }) => {
     const objInputRef = useRef<HTMLInputElement>(null);
     const mtlInputRef = useRef<HTMLInputElement>(null);
+    const texturesInputRef = useRef<HTMLInputElement>(null);
     const glbInputRef = useRef<HTMLInputElement>(null);
+    const gltfInputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
 
-    const hasModel = modelData?.objFileName || modelData?.glbFileName;
+    const hasModel = modelData?.objFileName || modelData?.glbFileName || modelData?.gltfFileName;
+    const gltfFileCount = Object.keys(modelData?.gltfFiles || {}).length;
+    const textureCount = Object.keys(modelData?.objFiles || {}).length;
+
+    const handleGltfInput = (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        onGltfFiles(type, pickedFromFileList(files));
+        if (gltfInputRef.current) gltfInputRef.current.value = '';
+    };
+
+    const handleGltfDrop = async (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        onGltfFiles(type, await readDroppedFiles(e.dataTransfer));
+    };
 
     return (
         <div className="bg-gray-700/50 p-4 rounded-lg border border-gray-600">
@@ -362,6 +748,43 @@ const CustomModelUploader: React.FC<CustomModelUploaderProps> = ({ type, modelDa
                         </span>
                     </button>
                 </div>
+                {/* Texture images referenced by the .mtl file (map_Kd, norm ...), picked together or dropped as a folder */}
+                <div
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={async (e) => { e.preventDefault(); onObjTextures(type, await readDroppedFiles(e.dataTransfer)); }}
+                >
+                    <input
+                        type="file"
+                        accept=".png,.jpg,.jpeg,.webp"
+                        multiple
+                        ref={texturesInputRef}
+                        onChange={(e) => {
+                            onObjTextures(type, pickedFromFileList(e.target.files));
+                            if (texturesInputRef.current) texturesInputRef.current.value = '';
+                        }}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => texturesInputRef.current?.click()}
+                        className="w-full flex items-center bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm font-semibold px-3 py-2 rounded-md transition-colors"
+                    >
+                        <FolderOpenIcon className="w-5 h-5 mr-3 text-cyan-400" />
+                        <span className="flex-grow text-left truncate">
+                            {textureCount > 0 ? `${textureCount} texture image${textureCount === 1 ? '' : 's'}` : 'Upload texture images (optional)'}
+                        </span>
+                    </button>
+                </div>
+                {modelData?.objFileName && (
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-300 cursor-pointer" title="Places each named object or group (o/g) of the OBJ file as its own child node, so parts can be selected and edited separately.">
+                        <input
+                            type="checkbox"
+                            checked={!!modelData.objSplitGroups}
+                            onChange={(e) => onSplitGroupsChange(type, e.target.checked)}
+                            className="accent-cyan-500"
+                        />
+                        Split groups into child shapes
+                    </label>
+                )}
 
                 <div className="relative flex items-center py-1">
                     <hr className="w-full border-t border-gray-600" />
@@ -387,6 +810,32 @@ const CustomModelUploader: React.FC<CustomModelUploaderProps> = ({ type, modelDa
                         </span>
                     </button>
                 </div>
+                {/* glTF Uploader: the .gltf with its .bin and images, picked together or dropped as a folder */}
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleGltfDrop}
+                >
+                    <input
+                        type="file"
+                        accept=".gltf,.bin,.png,.jpg,.jpeg,.webp"
+                        multiple
+                        ref={gltfInputRef}
+                        onChange={(e) => handleGltfInput(e.target.files)}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => gltfInputRef.current?.click()}
+                        className={`w-full flex items-center text-gray-200 text-sm font-semibold px-3 py-2 rounded-md transition-colors ${isDragging ? 'bg-teal-700 ring-2 ring-teal-400' : 'bg-gray-600 hover:bg-gray-500'}`}
+                    >
+                        <FolderOpenIcon className="w-5 h-5 mr-3 text-teal-400" />
+                        <span className="flex-grow text-left truncate">
+                            {modelData?.gltfFileName
+                                ? `${modelData.gltfFileName}${gltfFileCount > 0 ? ` (+${gltfFileCount} files)` : ''}`
+                                : 'Upload .gltf + .bin/images, or drop folder'}
+                        </span>
+                    </button>
+                </div>
             </div>
         </div>
     );
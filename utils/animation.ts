@@ -0,0 +1,125 @@
+
+export type Interpolation = 'LINEAR' | 'STEP';
+
+// Channels from every shape and material that share an animation name are
+// exported together as one glTF animation.
+export const DEFAULT_ANIMATION_NAME = 'Scene';
+
+export interface Keyframes {
+  times: number[];  // Seconds, strictly increasing
+  values: number[]; // Flattened output values, one VEC2/VEC3/VEC4 per time
+  interpolation?: Interpolation; // Defaults to LINEAR
+}
+
+// Keyframed TRS channels for a Shape's node. Each channel replaces the node's static value.
+export interface ShapeAnimation {
+  name?: string;
+  translation?: Keyframes; // VEC3
+  rotation?: Keyframes;    // VEC4 quaternion [x, y, z, w]
+  scale?: Keyframes;       // VEC3
+}
+
+// Animates the KHR_texture_transform offset of every texture in a material (via KHR_animation_pointer)
+export interface TextureOffsetAnimation {
+  name?: string;
+  offset: Keyframes; // VEC2
+}
+
+type Quaternion = [number, number, number, number];
+type Vec3 = [number, number, number];
+
+const multiplyQuaternions = (a: Quaternion, b: Quaternion): Quaternion => [
+  a[3] * b[0] + a[0] * b[3] + a[1] * b[2] - a[2] * b[1],
+  a[3] * b[1] - a[0] * b[2] + a[1] * b[3] + a[2] * b[0],
+  a[3] * b[2] + a[0] * b[1] - a[1] * b[0] + a[2] * b[3],
+  a[3] * b[3] - a[0] * b[0] - a[1] * b[1] - a[2] * b[2],
+];
+
+const axisAngle = (axis: Vec3, angle: number): Quaternion => {
+  const s = Math.sin(angle / 2);
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(angle / 2)];
+};
+
+// Evenly spaced sample times covering one full period, including both ends so the loop closes
+const sampleTimes = (period: number, samples: number): number[] =>
+  Array.from({ length: samples + 1 }, (_, i) => (period * i) / samples);
+
+export interface WindSwayOptions {
+  amplitude?: number; // Maximum tilt in radians
+  period?: number;    // Seconds per sway cycle
+  phase?: number;     // Radians, offsets trees so they don't move in lockstep
+  samples?: number;   // Keyframes per cycle
+}
+
+/**
+ * Gentle elliptical sway around the shape's base, suited to trees and tall grass.
+ * @param baseRotation - The shape's static rotation, which the sway is applied on top of.
+ */
+export function createWindSway(baseRotation: Quaternion = [0, 0, 0, 1], options: WindSwayOptions = {}): ShapeAnimation {
+  const { amplitude = 0.04, period = 4, phase = 0, samples = 12 } = options;
+  const times = sampleTimes(period, samples);
+  const values: number[] = [];
+  for (const t of times) {
+    const theta = (2 * Math.PI * t) / period + phase;
+    const tiltZ = axisAngle([0, 0, 1], amplitude * Math.sin(theta));
+    const tiltX = axisAngle([1, 0, 0], amplitude * 0.5 * Math.cos(theta));
+    values.push(...multiplyQuaternions(baseRotation, multiplyQuaternions(tiltX, tiltZ)));
+  }
+  return { name: DEFAULT_ANIMATION_NAME, rotation: { times, values } };
+}
+
+export interface BobbingOptions {
+  height?: number; // Peak vertical offset
+  period?: number; // Seconds per bob
+  samples?: number;
+}
+
+/**
+ * Smooth up-and-down motion starting and ending at the base position.
+ * @param baseTranslation - The shape's static translation.
+ */
+export function createBobbing(baseTranslation: Vec3, options: BobbingOptions = {}): ShapeAnimation {
+  const { height = 0.25, period = 2, samples = 12 } = options;
+  const times = sampleTimes(period, samples);
+  const values: number[] = [];
+  for (const t of times) {
+    const lift = height * 0.5 * (1 - Math.cos((2 * Math.PI * t) / period));
+    values.push(baseTranslation[0], baseTranslation[1] + lift, baseTranslation[2]);
+  }
+  return { name: DEFAULT_ANIMATION_NAME, translation: { times, values } };
+}
+
+export interface TurntableOptions {
+  period?: number; // Seconds per full revolution
+}
+
+/**
+ * Continuous rotation around the vertical axis.
+ * @param baseRotation - The shape's static rotation, which the spin is applied on top of.
+ */
+export function createTurntable(baseRotation: Quaternion = [0, 0, 0, 1], options: TurntableOptions = {}): ShapeAnimation {
+  const { period = 8 } = options;
+  // Quarter turns keep linear quaternion interpolation on the intended path
+  const times = sampleTimes(period, 4);
+  const values: number[] = [];
+  times.forEach((_, i) => {
+    values.push(...multiplyQuaternions(axisAngle([0, 1, 0], (Math.PI / 2) * i), baseRotation));
+  });
+  return { name: DEFAULT_ANIMATION_NAME, rotation: { times, values } };
+}
+
+export interface UvScrollOptions {
+  direction?: [number, number]; // Texture repeats travelled per loop; whole numbers loop seamlessly
+  duration?: number; // Seconds per loop
+}
+
+/**
+ * Scrolls a material's textures, e.g. to make water flow.
+ */
+export function createUvScroll(options: UvScrollOptions = {}): TextureOffsetAnimation {
+  const { direction = [0, 1], duration = 12 } = options;
+  return {
+    name: DEFAULT_ANIMATION_NAME,
+    offset: { times: [0, duration], values: [0, 0, direction[0], direction[1]] },
+  };
+}
@@ -0,0 +1,29 @@
+
+import { describe, expect, it } from 'vitest';
+import { batchShapes } from './batching';
+import type { Geometry } from './geometry';
+
+// Three points along X drawn as one LINE_STRIP
+const lineStrip = (): Geometry => ({
+  positions: new Float32Array([0, 0, 0, 1, 0, 0, 2, 0, 0]),
+  normals: new Float32Array([0, 1, 0, 0, 1, 0, 0, 1, 0]),
+  indices: new Uint16Array([0, 1, 2]),
+  primitives: [{ indicesOffset: 0, indicesCount: 3, mode: 3 }],
+});
+
+describe('batchShapes', () => {
+  it('merges line strips as separate segments', () => {
+    const [batch] = batchShapes([
+      { geometry: lineStrip(), translation: [0, 0, 0] },
+      { geometry: lineStrip(), translation: [0, 5, 0] },
+    ]);
+
+    const { indices, positions, primitives } = batch.geometry!;
+    expect(primitives).toEqual([expect.objectContaining({ indicesOffset: 0, indicesCount: 8, mode: 1 })]);
+
+    // Every segment stays within one shape: both ends at the same height
+    for (let i = 0; i < indices.length; i += 2) {
+      expect(positions[indices[i] * 3 + 1]).toBe(positions[indices[i + 1] * 3 + 1]);
+    }
+  });
+});
@@ -0,0 +1,250 @@
+
+import { createIndexArray, isTriangleList, type Geometry } from './geometry';
+import type { Shape } from './gltfBuilder';
+import { mergeMaterials, type Material } from './material';
+import { primitiveRanges } from './meshOptimizer';
+import { composeTrs, IDENTITY, multiply, normalMatrix, type Mat4 } from './transform';
+
+// A static mesh shape with its world transform and the feature it belongs to
+interface BatchItem {
+  shape: Shape & { geometry: Geometry };
+  world: Mat4;
+  feature: Shape;
+}
+
+// Everything the builder uses to resolve a primitive's material, plus its primitive mode
+interface ResolvedMaterial {
+  material?: Material;
+  texture?: string;
+  normalTexture?: string;
+  color?: [number, number, number, number];
+  mode?: number;
+}
+
+interface Batch extends ResolvedMaterial {
+  parts: { item: BatchItem; indicesOffset: number; indicesCount: number; mode?: number }[];
+  features: Shape[];
+}
+
+/**
+ * Merges static shapes that resolve to the same material into one mesh each, baking
+ * their world transforms into the vertex data.
+ *
+ * Shapes that are animated (or inside an animated group), lights and cameras keep their
+ * own nodes, as do meshes with triangle strips or fans. Line strips and loops are merged
+ * as separate segments (LINES), so no segment joins two shapes. Groups left without geometry or children are dropped. Each batched vertex
+ * records which feature it came from in `featureIds`, written as `_FEATURE_ID_0`; the
+ * feature is the nearest shape up the hierarchy with extras (or, failing that, a name),
+ * and the batch node's `extras.features` lists their names and extras in ID order.
+ */
+export function batchShapes(shapes: Shape[]): Shape[] {
+  const items: BatchItem[] = [];
+
+  const visit = (shape: Shape, parentWorld: Mat4, feature: Shape | null): Shape | null => {
+    if (shape.animations?.length) return shape;
+    const world = multiply(parentWorld, composeTrs(shape));
+    const ownFeature = shape.extras || (shape.name && !feature?.extras) ? shape : feature;
+
+    const children = (shape.children || [])
+      .map(child => visit(child, world, ownFeature))
+      .filter((child): child is Shape => child !== null);
+
+    const batchable = shape.geometry && !shape.geometry.primitives?.some(prim => prim.mode === 5 || prim.mode === 6);
+    if (batchable) {
+      items.push({ shape: shape as BatchItem['shape'], world, feature: ownFeature || shape });
+    }
+    if (shape.geometry && !batchable) {
+      // Strips and fans would join across shapes, so the mesh stays on its own node
+      return { ...shape, children: children.length > 0 ? children : undefined };
+    }
+    if (!shape.light && !shape.camera && children.length === 0) return null;
+    return { ...shape, geometry: undefined, children: children.length > 0 ? children : undefined };
+  };
+
+  const remaining = shapes
+    .map(shape => visit(shape, IDENTITY, null))
+    .filter((shape): shape is Shape => shape !== null);
+
+  // Group every primitive by the material it resolves to in the builder
+  const batches = new Map<string, Batch>();
+  for (const item of items) {
+    const { geometry } = item.shape;
+    const resolved: (ResolvedMaterial & { indicesOffset: number; indicesCount: number })[] =
+      geometry.primitives && geometry.primitives.length > 0
+        ? geometry.primitives.map(prim => ({
+            material: mergeMaterials(prim.material, item.shape.material),
+            texture: prim.texture,
+            normalTexture: prim.normalTexture,
+            color: prim.color,
+            mode: prim.mode,
+            indicesOffset: prim.indicesOffset,
+            indicesCount: prim.indicesCount,
+          }))
+        : primitiveRanges(geometry).map(range => ({
+            material: mergeMaterials(geometry.material, item.shape.material),
+            texture: geometry.texture,
+            normalTexture: geometry.normalTexture,
+            color: item.shape.color,
+            indicesOffset: range.indicesOffset,
+            indicesCount: range.indicesCount,
+          }));
+
+    for (const { indicesOffset, indicesCount, mode, ...material } of resolved) {
+      // Strips and loops are batched with plain lines, split into segments
+      const batchMode = mode === 2 || mode === 3 ? 1 : mode;
+      const key = JSON.stringify([material.material, material.texture, material.normalTexture, material.color, batchMode ?? 4]);
+      let batch = batches.get(key);
+      if (!batch) {
+        batch = { ...material, mode: batchMode, parts: [], features: [] };
+        batches.set(key, batch);
+      }
+      batch.parts.push({ item, indicesOffset, indicesCount, mode });
+      if (!batch.features.includes(item.feature)) batch.features.push(item.feature);
+    }
+  }
+
+  const batched = Array.from(batches.values()).map((batch, i): Shape => ({
+    geometry: mergeBatch(batch),
+    translation: [0, 0, 0],
+    color: batch.color,
+    name: batch.material?.name ? `Batch ${batch.material.name}` : `Batch ${i}`,
+    extras: { features: batch.features.map(feature => ({ name: feature.name, ...feature.extras })) },
+  }));
+
+  return [...batched, ...remaining];
+}
+
+// Concatenates the referenced triangles of every part into one geometry in world space
+function mergeBatch(batch: Batch): Geometry {
+  const geometries = batch.parts.map(part => part.item.shape.geometry);
+  const hasColors = geometries.some(g => g.colors && g.colors.length > 0);
+  const hasUvs = geometries.some(g => g.uvs && g.uvs.length > 0);
+  const hasUvs1 = geometries.some(g => g.uvs1 && g.uvs1.length > 0);
+  const hasTangents = geometries.every(g => g.tangents && g.tangents.length > 0);
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const uvs: number[] = [];
+  const uvs1: number[] = [];
+  const tangents: number[] = [];
+  const featureIds: number[] = [];
+  const indices: number[] = [];
+  const triangles = isTriangleList(batch);
+
+  for (const { item, indicesOffset, indicesCount, mode } of batch.parts) {
+    const { geometry } = item.shape;
+    const m = item.world;
+    const { matrix: n, determinant } = normalMatrix(m);
+    const mirrored = determinant < 0;
+    const featureId = batch.features.indexOf(item.feature);
+    const vertexCount = geometry.positions.length / 3;
+    const colorSize = geometry.colors ? geometry.colors.length / vertexCount : 0;
+
+    // Only the vertices this primitive references are copied
+    const remap = new Map<number, number>();
+    const triangle: number[] = [];
+    for (const v of partIndices(geometry.indices, indicesOffset, indicesCount, mode)) {
+      let target = remap.get(v);
+      if (target === undefined) {
+        target = positions.length / 3;
+        remap.set(v, target);
+
+        const [px, py, pz] = [geometry.positions[v * 3], geometry.positions[v * 3 + 1], geometry.positions[v * 3 + 2]];
+        positions.push(
+          m[0] * px + m[4] * py + m[8] * pz + m[12],
+          m[1] * px + m[5] * py + m[9] * pz + m[13],
+          m[2] * px + m[6] * py + m[10] * pz + m[14],
+        );
+
+        const [nx, ny, nz] = [geometry.normals[v * 3], geometry.normals[v * 3 + 1], geometry.normals[v * 3 + 2]];
+        const sign = mirrored ? -1 : 1;
+        const tnx = (n[0] * nx + n[1] * ny + n[2] * nz) * sign;
+        const tny = (n[3] * nx + n[4] * ny + n[5] * nz) * sign;
+        const tnz = (n[6] * nx + n[7] * ny + n[8] * nz) * sign;
+        const len = Math.hypot(tnx, tny, tnz) || 1;
+        normals.push(tnx / len, tny / len, tnz / len);
+
+        if (hasColors) {
+          if (colorSize > 0) {
+            colors.push(geometry.colors![v * colorSize], geometry.colors![v * colorSize + 1], geometry.colors![v * colorSize + 2]);
+            colors.push(colorSize === 4 ? geometry.colors![v * 4 + 3] : 1);
+          } else {
+            colors.push(1, 1, 1, 1);
+          }
+        }
+        if (hasUvs) {
+          uvs.push(geometry.uvs?.[v * 2] ?? 0, geometry.uvs?.[v * 2 + 1] ?? 0);
+        }
+        if (hasUvs1) {
+          uvs1.push(geometry.uvs1?.[v * 2] ?? 0, geometry.uvs1?.[v * 2 + 1] ?? 0);
+        }
+        if (hasTangents) {
+          const [tx, ty, tz, tw] = geometry.tangents!.subarray(v * 4, v * 4 + 4);
+          const ttx = m[0] * tx + m[4] * ty + m[8] * tz;
+          const tty = m[1] * tx + m[5] * ty + m[9] * tz;
+          const ttz = m[2] * tx + m[6] * ty + m[10] * tz;
+          const tlen = Math.hypot(ttx, tty, ttz) || 1;
+          tangents.push(ttx / tlen, tty / tlen, ttz / tlen, mirrored ? -tw : tw);
+        }
+        featureIds.push(featureId);
+      }
+      if (!triangles) {
+        indices.push(target);
+        continue;
+      }
+      triangle.push(target);
+      if (triangle.length === 3) {
+        // Mirroring transforms flip the winding order, which would turn faces inside out
+        if (mirrored) indices.push(triangle[0], triangle[2], triangle[1]);
+        else indices.push(...triangle);
+        triangle.length = 0;
+      }
+    }
+  }
+
+  const vertexCount = positions.length / 3;
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: createIndexArray(indices, vertexCount),
+    colors: hasColors ? new Float32Array(colors) : undefined,
+    uvs: hasUvs ? new Float32Array(uvs) : undefined,
+    uvs1: hasUvs1 ? new Float32Array(uvs1) : undefined,
+    tangents: hasTangents ? new Float32Array(tangents) : undefined,
+    featureIds: new Float32Array(featureIds),
+    texture: batch.texture,
+    normalTexture: batch.normalTexture,
+    material: batch.material,
+    // Only primitives carry a mode, so point and line batches get one covering everything
+    primitives: triangles ? undefined : [{
+      indicesOffset: 0,
+      indicesCount: indices.length,
+      texture: batch.texture,
+      normalTexture: batch.normalTexture,
+      color: batch.color,
+      material: batch.material,
+      mode: batch.mode,
+    }],
+  };
+}
+
+// The indices of one primitive, with LINE_LOOP (2) and LINE_STRIP (3) expanded to LINES pairs
+function partIndices(indices: ArrayLike<number>, offset: number, count: number, mode?: number): number[] {
+  const range = Array.from({ length: count }, (_, i) => indices[offset + i]);
+  if (mode !== 2 && mode !== 3) return range;
+  const segments: number[] = [];
+  for (let i = 0; i + 1 < range.length; i++) segments.push(range[i], range[i + 1]);
+  if (mode === 2 && range.length > 2) segments.push(range[range.length - 1], range[0]);
+  return segments;
+}
+
+/**
+ * Counts the draw calls a scene needs without instancing: one per primitive of every mesh shape.
+ */
+export function countDrawCalls(shapes: Shape[]): number {
+  return shapes.reduce((acc, shape) => {
+    const own = shape.geometry ? primitiveRanges(shape.geometry).length : 0;
+    return acc + own + countDrawCalls(shape.children || []);
+  }, 0);
+}
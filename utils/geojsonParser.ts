@@ -1,15 +1,20 @@
 
 import type { Shape } from './gltfBuilder';
-import type { Geometry } from './geometry';
+import { createIndexArray, type Geometry } from './geometry';
 import { createTree, createRock, GRASS_TEXTURE, WATER_TEXTURE, WATER_NORMAL_TEXTURE, GRASS_NORMAL_TEXTURE } from './stockModels';
-import { parseObj } from './objParser';
-import { parseGlb } from './glbParser';
+import { parseObj, parseObjShapes } from './objParser';
+import { parseGlb, parseGltf } from './glbParser';
+import type { ModelFiles } from './modelFiles';
+import { createUvScroll, createWindSway } from './animation';
+import type { Material } from './material';
+import { createSunAndCamera } from './sceneSetup';
 
 // GeoJSON type definitions for clarity
 type Point = [number, number];
 type Polygon = Point[][];
 interface Feature {
     type: 'Feature';
+    id?: string | number;
     geometry: {
         type: 'Polygon';
         coordinates: Polygon;
@@ -30,8 +35,13 @@ export interface CustomModelData {
     mtl?: string;
     objFileName?: string;
     mtlFileName?: string;
+    objFiles?: ModelFiles; // Texture images referenced by the .mtl file
+    objSplitGroups?: boolean; // Place each OBJ "o"/"g" group as a named child shape
     glb?: ArrayBuffer;
     glbFileName?: string;
+    gltf?: string; // .gltf JSON, with its external buffers and images in gltfFiles
+    gltfFiles?: ModelFiles;
+    gltfFileName?: string;
 }
 export interface CustomModels {
     tree?: CustomModelData;
@@ -39,6 +49,22 @@ export interface CustomModels {
     grass?: CustomModelData; // Support for custom grass model
 }
 
+// Texture repeats per world unit, uniform or as [u, v]
+export type TextureTiling = number | [number, number];
+
+export interface GeoJsonSceneOptions {
+    // Tiling per terrain feature type, e.g. { grass: 4 }. A feature can override it
+    // with its own `textureTiling` property.
+    textureTiling?: { [featureType: string]: TextureTiling };
+    animated?: boolean; // Adds wind sway to trees and flowing water to rivers
+    sunAndCamera?: boolean; // Adds a sun and an overview camera framing the asset, defaults to true
+}
+
+const DEFAULT_TEXTURE_TILING: { [featureType: string]: TextureTiling } = {
+    grass: 2.0, // Moderate scale for tiling
+    river: 0.5,
+};
+
 /**
  * Triangulates a simple polygon using a basic fan algorithm from the first vertex.
  * Assumes the polygon is mostly convex.
@@ -88,17 +114,25 @@ function getRandomPointInTriangle(p1: Point, p2: Point, p3: Point): Point {
 }
 
 
-async function getModel(modelData: CustomModelData | undefined, stockModelFn: () => Geometry): Promise<Geometry> {
+// What a placed model contributes to its shape: one geometry, or child shapes for split OBJ groups
+type ModelParts = Pick<Shape, 'geometry' | 'children'>;
+
+async function getModel(modelData: CustomModelData | undefined, stockModelFn: () => Geometry): Promise<ModelParts> {
     if (modelData?.glb) {
-        return parseGlb(modelData.glb);
+        return { geometry: await parseGlb(modelData.glb) };
+    }
+    if (modelData?.gltf) {
+        return { geometry: await parseGltf(modelData.gltf, modelData.gltfFiles) };
     }
     if (modelData?.obj) {
-        return parseObj(modelData.obj, modelData.mtl);
+        return modelData.objSplitGroups
+            ? { children: parseObjShapes(modelData.obj, modelData.mtl, modelData.objFiles) }
+            : { geometry: parseObj(modelData.obj, modelData.mtl, modelData.objFiles) };
     }
-    return stockModelFn();
+    return { geometry: stockModelFn() };
 }
 
-export async function parseGeoJsonToShapes(geojsonString: string, customModels: CustomModels = {}): Promise<Shape[]> {
+export async function parseGeoJsonToShapes(geojsonString: string, customModels: CustomModels = {}, options: GeoJsonSceneOptions = {}): Promise<Shape[]> {
     const shapes: Shape[] = [];
     const geojson: FeatureCollection = JSON.parse(geojsonString);
 
@@ -133,28 +167,42 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
         return [(lon - centerLon) * scale, (lat - centerLat) * scale * -1]; // Invert Z-axis
     };
 
+    if (options.sunAndCamera ?? true) {
+        // Frame the asset boundary, allowing some height for trees standing on it
+        const halfWidth = (lonRange * scale) / 2;
+        const halfDepth = (latRange * scale) / 2;
+        shapes.push(...createSunAndCamera([-halfWidth, 0, -halfDepth], [halfWidth, 4, halfDepth]));
+    }
+
     // Pre-create models so they are not re-parsed for every feature
     const treeModel = await getModel(customModels.tree, createTree);
     const rockModel = await getModel(customModels.rock, createRock);
     
     // Only create grass model if provided custom, otherwise we just use texture
-    let grassModel: Geometry | null = null;
+    let grassModel: ModelParts | null = null;
     if (customModels.grass) {
         // Fallback to empty geometry if loading fails, but getModel handles most logic
         grassModel = await getModel(customModels.grass, () => ({ positions: new Float32Array(0), normals: new Float32Array(0), indices: new Uint16Array(0) }));
     }
 
-    for (const feature of geojson.features) {
-        if (feature.geometry.type !== 'Polygon') continue;
+    geojson.features.forEach((feature, featureIndex) => {
+        if (feature.geometry.type !== 'Polygon') return;
 
         const projectedPolygon = feature.geometry.coordinates[0].map(project);
         const featureType = feature.properties.type;
+        // Node name used by downstream tools to select the feature, e.g. "parcel-12"
+        const featureName = String(feature.properties.name ?? feature.id ?? `${featureType}-${featureIndex}`);
 
         if (featureType === 'tree' || featureType === 'rock') {
             const centroid = getCentroid(projectedPolygon);
             shapes.push({
-                geometry: featureType === 'tree' ? treeModel : rockModel,
+                ...(featureType === 'tree' ? treeModel : rockModel),
                 translation: [centroid[0], 0, centroid[1]],
+                name: featureName,
+                extras: feature.properties,
+                animations: featureType === 'tree' && options.animated
+                    ? [createWindSway(undefined, { phase: Math.random() * Math.PI * 2 })]
+                    : undefined,
             });
         } else {
             // It's a terrain polygon
@@ -167,7 +215,6 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
             let color: [number, number, number, number] = [0.5, 0.5, 0.5, 1.0]; // Default color
             let texture: string | undefined = undefined;
             let normalTexture: string | undefined = undefined;
-            let uvScale = 1.0;
 
             switch (featureType) {
                 case 'asset':
@@ -180,7 +227,6 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
                     color = [0.1, 0.6, 0.1, 1.0]; 
                     texture = GRASS_TEXTURE;
                     normalTexture = GRASS_NORMAL_TEXTURE;
-                    uvScale = 2.0; // Moderate scale for tiling
                     break;
                 case 'river':
                     yLevel = 0.005; // Slightly lower than grass
@@ -188,14 +234,13 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
                     color = [0.2, 0.4, 0.8, 1.0];
                     texture = WATER_TEXTURE;
                     normalTexture = WATER_NORMAL_TEXTURE;
-                    uvScale = 0.5;
                     break;
                 case 'rock': // Rock terrain, not object
                      yLevel = 0.015;
                      color = [0.45, 0.45, 0.45, 1.0]; // Darker gray
                      break;
                 default:
-                    continue; // Skip unknown terrain types
+                    return; // Skip unknown terrain types
             }
             
             projectedPolygon.forEach((p, i) => {
@@ -209,30 +254,51 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
                 normals[i * 3 + 1] = 1;
                 normals[i * 3 + 2] = 0;
 
-                // UVs (Planar mapping)
-                uvs[i * 2] = p[0] * uvScale;
-                uvs[i * 2 + 1] = p[1] * uvScale;
+                // UVs (Planar mapping in world units, tiling is applied by the material)
+                uvs[i * 2] = p[0];
+                uvs[i * 2 + 1] = p[1];
             });
             
             const geometry: Geometry = {
                 positions,
                 normals,
-                indices: new Uint16Array(indices),
+                indices: createIndexArray(indices, projectedPolygon.length),
                 uvs,
                 texture,
                 normalTexture
             };
 
-            // Add the base terrain shape
-            shapes.push({
+            const tiling: TextureTiling | undefined = feature.properties.textureTiling
+                ?? options.textureTiling?.[featureType]
+                ?? DEFAULT_TEXTURE_TILING[featureType];
+
+            const material: Material = {};
+            if (texture && tiling !== undefined) {
+                material.textureTransform = { scale: typeof tiling === 'number' ? [tiling, tiling] : tiling };
+            }
+            if (featureType === 'river' && options.animated) {
+                material.textureAnimation = createUvScroll();
+            }
+
+            // The feature becomes a named group holding the terrain surface and any scattered objects
+            const featureChildren: Shape[] = [{
                 geometry,
                 translation: [0, 0, 0],
-                color
+                color,
+                material,
+                name: `${featureName}/surface`
+            }];
+            shapes.push({
+                translation: [0, 0, 0],
+                name: featureName,
+                extras: feature.properties,
+                children: featureChildren
             });
 
             // If it's grass and we have a custom model, distribute it!
             if (featureType === 'grass' && grassModel) {
                 const density = 2.0; // Objects per square unit
+                const grassShapes: Shape[] = [];
                 
                 for (let i = 0; i < indices.length; i += 3) {
                     const i1 = indices[i];
@@ -260,8 +326,8 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
                         // Random scale variation (0.8 to 1.2)
                         const scaleVar = 0.8 + Math.random() * 0.4;
                         
-                        shapes.push({
-                            geometry: grassModel,
+                        grassShapes.push({
+                            ...grassModel,
                             translation: [pt[0], yLevel, pt[1]],
                             rotation: rotQ,
                             scale: [scaleVar, scaleVar, scaleVar],
@@ -269,8 +335,14 @@ export async function parseGeoJsonToShapes(geojsonString: string, customModels:
                         });
                     }
                 }
+
+                featureChildren.push({
+                    translation: [0, 0, 0],
+                    name: `${featureName}/grass`,
+                    children: grassShapes
+                });
             }
         }
-    }
+    });
     return shapes;
 }
@@ -1,23 +1,55 @@
 
+import type { Material } from './material';
+
+// Index buffers switch to 32-bit once a mesh references more vertices than 16 bits can address
+export type IndexArray = Uint16Array | Uint32Array;
+
 export interface GeometryPrimitive {
   indicesOffset: number; // Start index in the main indices array
   indicesCount: number;  // Number of indices for this primitive
   texture?: string;      // Specific texture for this primitive
   normalTexture?: string; // Specific normal map for this primitive
   color?: [number, number, number, number]; // Specific base color
+  material?: Material;   // Explicit material, takes precedence over texture/normalTexture/color
+  mode?: number;         // glTF primitive mode: 0 POINTS, 1 LINES, 2 LINE_LOOP, 3 LINE_STRIP, 4 TRIANGLES (default)
+  name?: string;         // Object or group the range came from, e.g. an OBJ "o"/"g" name
 }
 
 export interface Geometry {
   positions: Float32Array;
   normals: Float32Array;
-  indices: Uint16Array;
+  indices: IndexArray;
   colors?: Float32Array;
   uvs?: Float32Array;
+  uvs1?: Float32Array; // Second UV set (TEXCOORD_1), used by textures with texCoord 1
+  tangents?: Float32Array; // VEC4 per vertex (xyz + bitangent sign), generated on export when missing
+  featureIds?: Float32Array; // One feature ID per vertex, written as _FEATURE_ID_0 (set by static batching)
   texture?: string; // Legacy/Fallback global texture
   normalTexture?: string; // Legacy/Fallback global normal map
+  material?: Material; // Material for geometry without primitives
   primitives?: GeometryPrimitive[]; // Breakdown of geometry into material groups
 }
 
+/**
+ * Whether a primitive is a triangle list. Mesh processing (welding cleanup, cache
+ * optimization, simplification, mirroring) only touches triangle lists; point and
+ * line primitives pass through unchanged.
+ */
+export function isTriangleList(primitive: Pick<GeometryPrimitive, 'mode'>): boolean {
+  return primitive.mode === undefined || primitive.mode === 4;
+}
+
+/**
+ * Packs index data into the narrowest array that can address every vertex.
+ * 65535 is reserved as the primitive restart value, so 16-bit indices are only
+ * used while all vertices sit below it.
+ * @param indices - The index values to pack.
+ * @param vertexCount - Number of vertices the indices refer to.
+ */
+export function createIndexArray(indices: ArrayLike<number>, vertexCount: number): IndexArray {
+  return vertexCount < 65535 ? Uint16Array.from(indices) : Uint32Array.from(indices);
+}
+
 export function createCube(size = 1): Geometry {
   const s = size / 2;
   const positions = new Float32Array([
@@ -160,7 +192,7 @@ export function createSphere(radius = 1, sectorCount = 36, stackCount = 18): Geo
     return {
         positions: new Float32Array(positions),
         normals: new Float32Array(normals),
-        indices: new Uint16Array(indices),
+        indices: createIndexArray(indices, positions.length / 3),
         uvs: new Float32Array(uvs)
     };
 }
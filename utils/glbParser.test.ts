@@ -0,0 +1,55 @@
+
+import { describe, expect, it } from 'vitest';
+import { createCube } from './geometry';
+import { parseGlbScene, parseGltfScene } from './glbParser';
+import { buildGlb, type Shape } from './gltfBuilder';
+import { composeTrs, transformGeometry } from './transform';
+
+const expectClose = (actual: ArrayLike<number> | undefined, expected: ArrayLike<number>, tolerance = 1e-3) => {
+  expect(actual).toHaveLength(expected.length);
+  Array.from(expected).forEach((value, i) => expect(Math.abs(actual![i] - value)).toBeLessThan(tolerance));
+};
+
+describe('parseGlbScene', () => {
+  // Off-center so the quantization frame has an offset as well as a scale
+  const geometry = transformGeometry(createCube(2), composeTrs({ translation: [5, 1, 0] }));
+
+  it('restores quantized shapes whose frame was folded into their node', async () => {
+    const shape: Shape = { geometry, translation: [1, 2, 3], rotation: [0, Math.SQRT1_2, 0, Math.SQRT1_2], name: 'box' };
+    const [imported] = await parseGlbScene(buildGlb([shape], { quantization: {} }));
+
+    expect(imported.name).toBe('box');
+    expectClose(imported.translation, shape.translation);
+    expectClose(imported.rotation, shape.rotation!);
+    expect(imported.scale).toBeUndefined();
+    expectClose(imported.geometry!.positions, geometry.positions);
+  });
+
+  it('restores quantized instances', async () => {
+    const shapes: Shape[] = [0, 1, 2].map(i => ({ geometry, translation: [i * 4, 0, 0], scale: [1, 2, 1] }));
+    const imported = await parseGlbScene(buildGlb(shapes, { quantization: {}, instancing: true }));
+
+    expect(imported).toHaveLength(3);
+    imported.forEach((instance, i) => {
+      expectClose(instance.translation, shapes[i].translation);
+      expectClose(instance.scale, [1, 2, 1]);
+      expectClose(instance.geometry!.positions, geometry.positions);
+    });
+  });
+
+  it('gives primitives without a material the glTF default material', async () => {
+    const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const gltf = {
+      asset: { version: '2.0' },
+      buffers: [{ byteLength: 36, uri: `data:application/octet-stream;base64,${Buffer.from(positions.buffer).toString('base64')}` }],
+      bufferViews: [{ buffer: 0, byteLength: 36 }],
+      accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+      meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+      nodes: [{ mesh: 0 }],
+    };
+    const [imported] = await parseGltfScene(JSON.stringify(gltf));
+
+    expect(imported.color).toEqual([1, 1, 1, 1]);
+    expect(imported.material).toMatchObject({ metallicFactor: 1, roughnessFactor: 1, alphaMode: 'OPAQUE', doubleSided: false });
+  });
+});
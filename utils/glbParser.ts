@@ -1,5 +1,13 @@
 
-import type { Geometry, GeometryPrimitive } from './geometry';
+import { isTriangleList, type Geometry, type GeometryPrimitive, type IndexArray } from './geometry';
+import type { Material, TextureSettings, TextureSlot } from './material';
+import type { ShapeAnimation } from './animation';
+import { GENERATOR, type QuantizationFrame, type Shape } from './gltfBuilder';
+import { decodeDataUri } from './imageData';
+import { arrayBufferToBase64, findFile, imageDataUri, type ModelFiles } from './modelFiles';
+import type { Camera, Light } from './sceneSetup';
+import { generateTangents } from './tangents';
+import { composeTrs, decomposeMatrix, IDENTITY, multiply, transformGeometry, type Mat4, type Trs } from './transform';
 
 const CHUNK_TYPE = {
   JSON: 0x4E4F534A,
@@ -27,21 +35,57 @@ const TYPE_COMPONENT_COUNT_MAP: { [key: string]: number } = {
   'MAT4': 16,
 };
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-    let binary = '';
-    const bytes = new Uint8Array(buffer);
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
+// The parsed JSON of a glTF asset with every buffer loaded
+interface GltfContent {
+    gltf: any;
+    buffers: ArrayBuffer[];
+    files: ModelFiles;
+}
+
+// Loads the data behind a buffer or image URI: embedded data URIs or uploaded files
+function loadUri(content: Pick<GltfContent, 'files'>, uri: string, owner: string): ArrayBuffer {
+    if (uri.startsWith('data:')) {
+        const decoded = decodeDataUri(uri);
+        if (!decoded) {
+            throw new Error(`${owner} has a malformed data URI.`);
+        }
+        return decoded.bytes.slice().buffer;
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+        throw new Error(`${owner} references "${uri}", but only relative file paths and data URIs are supported.`);
     }
-    return btoa(binary);
+    const data = findFile(content.files, uri);
+    if (!data) {
+        throw new Error(`Missing file "${uri}" referenced by ${owner}. Select it together with the .gltf file or drop the whole folder.`);
+    }
+    return data;
 }
 
 /**
- * Parses a GLB file's ArrayBuffer to extract geometry from its first mesh.
- * Maintains primitive structure to support multi-material models (e.g. Tree Trunk vs Leaves).
+ * Loads every buffer of a glTF asset. A buffer without a URI is the GLB binary chunk.
  */
-export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
+function loadBuffers(gltf: any, files: ModelFiles, binaryChunk?: ArrayBuffer): ArrayBuffer[] {
+    return (gltf.buffers || []).map((buffer: any, i: number) => {
+        let data: ArrayBuffer;
+        if (buffer.uri === undefined) {
+            if (i !== 0 || !binaryChunk) {
+                throw new Error(`buffers[${i}] has no URI, but the file has no GLB binary chunk to provide it.`);
+            }
+            data = binaryChunk;
+        } else {
+            data = loadUri({ files }, buffer.uri, `buffers[${i}]`);
+        }
+        if (data.byteLength < buffer.byteLength) {
+            throw new Error(`buffers[${i}] needs ${buffer.byteLength} bytes, but "${buffer.uri ?? 'BIN chunk'}" has only ${data.byteLength}.`);
+        }
+        return data;
+    });
+}
+
+/**
+ * Reads the header and the JSON and BIN chunks of a GLB container.
+ */
+function readGlb(arrayBuffer: ArrayBuffer): GltfContent {
     const dataView = new DataView(arrayBuffer);
 
     // 1. Read GLB header
@@ -69,7 +113,7 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
     const gltf = JSON.parse(jsonString);
     chunkOffset += jsonChunkLength;
 
-    // 3. Read BIN chunk
+    // 3. Read BIN chunk (optional when every buffer is a data URI)
     let binaryBuffer: ArrayBuffer | undefined;
     
     // Iterate through remaining chunks to find BIN
@@ -86,25 +130,35 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
         
         chunkOffset += chunkLength;
     }
-    
-    if (!binaryBuffer) {
-        throw new Error('GLB file does not contain a binary buffer chunk.');
-    }
-    
-    // 4. Find the first mesh
-    const mesh = gltf.meshes?.[0];
-    if (!mesh) {
-        throw new Error('GLB file does not contain any meshes.');
+
+    const files: ModelFiles = {};
+    return { gltf, buffers: loadBuffers(gltf, files, binaryBuffer), files };
+}
+
+/**
+ * Parses the JSON of a .gltf file and loads its buffers from data URIs or from the
+ * files uploaded with it.
+ */
+function readGltf(json: string, files: ModelFiles): GltfContent {
+    let gltf: any;
+    try {
+        gltf = JSON.parse(json);
+    } catch (err) {
+        throw new Error(`Invalid .gltf file: ${err instanceof Error ? err.message : String(err)}`);
     }
-    const primitives = mesh.primitives || [];
-    if (primitives.length === 0) {
-        throw new Error('Mesh has no primitives.');
+    if (!gltf.asset?.version?.startsWith('2.')) {
+        throw new Error('Unsupported glTF version. Only version 2 is supported.');
     }
+    return { gltf, buffers: loadBuffers(gltf, files), files };
+}
 
-    // 5. Helper function to get TypedArray data from an accessor
-    const getAccessorData = (accessorIndex: number): TypedArray => {
+/**
+ * Returns a helper that copies an accessor's elements out of the binary buffer,
+ * de-interleaving strided data.
+ */
+function createAccessorReader({ gltf, buffers }: GltfContent): (accessorIndex: number) => TypedArray {
+    return (accessorIndex: number): TypedArray => {
         const accessor = gltf.accessors[accessorIndex];
-        const bufferView = gltf.bufferViews[accessor.bufferView];
         const TypedArrayConstructor = COMPONENT_TYPE_MAP[accessor.componentType];
         
         if (!TypedArrayConstructor) {
@@ -114,8 +168,15 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
         const componentCount = TYPE_COMPONENT_COUNT_MAP[accessor.type] || 1;
         const elementCount = accessor.count;
         const totalComponents = elementCount * componentCount;
+
+        // Accessors without a buffer view are all zeros
+        if (accessor.bufferView === undefined) {
+            return new TypedArrayConstructor(totalComponents);
+        }
+        const bufferView = gltf.bufferViews[accessor.bufferView];
+        const binaryBuffer = buffers[bufferView.buffer];
         
-        // Offset relative to the buffer (which we extracted as binaryBuffer)
+        // Offset relative to the buffer the view points into
         const byteOffset = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
         
         // Handle byteStride for interleaved data
@@ -124,12 +185,12 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
 
         // If data is tightly packed (no stride or stride equals element size)
         if (!byteStride || byteStride === elementSize) {
-             return new TypedArrayConstructor(binaryBuffer!.slice(byteOffset, byteOffset + totalComponents * TypedArrayConstructor.BYTES_PER_ELEMENT));
+             return new TypedArrayConstructor(binaryBuffer.slice(byteOffset, byteOffset + totalComponents * TypedArrayConstructor.BYTES_PER_ELEMENT));
         }
 
         // Handle interleaved data
         const output = new TypedArrayConstructor(totalComponents);
-        const bufferBytes = new Uint8Array(binaryBuffer!);
+        const bufferBytes = new Uint8Array(binaryBuffer);
         const outputBytes = new Uint8Array(output.buffer);
         const bytesPerElement = TypedArrayConstructor.BYTES_PER_ELEMENT;
         const bytesPerComponent = componentCount * bytesPerElement;
@@ -143,39 +204,224 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
         }
         return output;
     };
+}
 
-    // Containers for merged data
-    const allPositions: Float32Array[] = [];
-    const allNormals: Float32Array[] = [];
-    const allColors: Float32Array[] = [];
-    const allUVs: Float32Array[] = [];
-    const allIndices: Uint16Array[] = [];
-    
-    const geometryPrimitives: GeometryPrimitive[] = [];
+// Largest value of each integer component type, used to decode normalized accessors
+const NORMALIZED_MAX: { [key: number]: number } = {
+    5120: 127,
+    5121: 255,
+    5122: 32767,
+    5123: 65535,
+};
+
+/**
+ * Converts accessor data to floats. Normalized integers are mapped to [0, 1] or
+ * [-1, 1]; other integers (e.g. quantized positions) keep their values, since the
+ * node transform carries their scale.
+ */
+function toFloat32(data: TypedArray, accessor: any): Float32Array {
+    if (data instanceof Float32Array) return data;
+    const output = Float32Array.from(data);
+    const max = NORMALIZED_MAX[accessor.componentType];
+    if (accessor.normalized && max) {
+        for (let i = 0; i < output.length; i++) {
+            output[i] = Math.max(output[i] / max, -1);
+        }
+    }
+    return output;
+}
 
+/**
+ * Concatenates geometries into one, offsetting their primitives. Colors are kept as
+ * RGBA; tangents are generated for parts without them if any part has them.
+ */
+function mergeGeometries(parts: Geometry[]): Geometry {
     let totalVertexCount = 0;
     let totalIndexCount = 0;
-    let hasAlphaColor = false; // Track if we encounter any 4-component colors
+    for (const part of parts) {
+        totalVertexCount += part.positions.length / 3;
+        totalIndexCount += part.indices.length;
+    }
+
+    const mergedPositions = new Float32Array(totalVertexCount * 3);
+    const mergedNormals = new Float32Array(totalVertexCount * 3);
+    // Always use 4 components for colors internally to support alpha
+    const mergedColors = new Float32Array(totalVertexCount * 4); 
+    const mergedUVs = new Float32Array(totalVertexCount * 2);
+    // The second UV set is zero-filled for parts without one
+    const mergedUVs1 = parts.some(part => part.uvs1) ? new Float32Array(totalVertexCount * 2) : undefined;
+    const mergedFeatureIds = parts.some(part => part.featureIds) ? new Float32Array(totalVertexCount) : undefined;
+    // Merged primitives can exceed 16-bit addressing even if each one fits on its own
+    const mergedIndices: IndexArray = totalVertexCount < 65535 ? new Uint16Array(totalIndexCount) : new Uint32Array(totalIndexCount);
+    // Preserve authored tangents. Parts without them get generated ones so the
+    // merged attribute covers every vertex.
+    const mergedTangents = parts.some(part => part.tangents) ? new Float32Array(totalVertexCount * 4) : undefined;
+    const geometryPrimitives: GeometryPrimitive[] = [];
+
+    let indexBase = 0; // Base value to add to indices (vertex offset)
+    let iOffset = 0; // Index offset (int count)
+
+    for (const part of parts) {
+        const vertexCount = part.positions.length / 3;
+
+        mergedPositions.set(part.positions, indexBase * 3);
+        mergedNormals.set(part.normals, indexBase * 3);
+        mergedColors.set(part.colors!, indexBase * 4);
+        mergedUVs.set(part.uvs!, indexBase * 2);
+        if (mergedUVs1 && part.uvs1) {
+            mergedUVs1.set(part.uvs1, indexBase * 2);
+        }
+        if (mergedFeatureIds && part.featureIds) {
+            mergedFeatureIds.set(part.featureIds, indexBase);
+        }
+        if (mergedTangents) {
+            mergedTangents.set(part.tangents ?? generateTangents(part), indexBase * 4);
+        }
+
+        // Update indices: add current indexBase to every index
+        for (let j = 0; j < part.indices.length; j++) {
+            mergedIndices[iOffset + j] = part.indices[j] + indexBase;
+        }
+        for (const primitive of part.primitives || []) {
+            geometryPrimitives.push({ ...primitive, indicesOffset: primitive.indicesOffset + iOffset });
+        }
+
+        indexBase += vertexCount;
+        iOffset += part.indices.length;
+    }
+
+    // Fallback global texture (first one found) for legacy support
+    const fallbackTexture = geometryPrimitives.find(p => p.texture)?.texture;
+
+    return { 
+        positions: mergedPositions, 
+        normals: mergedNormals, 
+        indices: mergedIndices, 
+        colors: mergedColors, 
+        uvs: mergedUVs, 
+        uvs1: mergedUVs1,
+        tangents: mergedTangents,
+        featureIds: mergedFeatureIds,
+        texture: fallbackTexture,
+        primitives: geometryPrimitives
+    };
+}
+
+/**
+ * Returns an image as a data URI, whether it is stored in a buffer view, embedded
+ * as a data URI or uploaded as a separate file.
+ */
+function readImage(content: GltfContent, imageIndex: number | undefined): string | undefined {
+    const { gltf, buffers } = content;
+    const image = imageIndex !== undefined ? gltf.images?.[imageIndex] : undefined;
+    if (!image) return undefined;
+
+    if (image.bufferView !== undefined) {
+        const bv = gltf.bufferViews[image.bufferView];
+        const start = (bv.byteOffset || 0);
+        const imgBuffer = buffers[bv.buffer].slice(start, start + bv.byteLength);
+        return `data:${image.mimeType || 'image/png'};base64,${arrayBufferToBase64(imgBuffer)}`;
+    }
+    if (image.uri?.startsWith('data:')) {
+        return image.uri;
+    }
+    if (image.uri) {
+        return imageDataUri(loadUri(content, image.uri, `images[${imageIndex}]`), image.uri, image.mimeType);
+    }
+    return undefined;
+}
+
+/**
+ * Converts a glTF material with all of its core properties and textures. Properties
+ * the file omits get their glTF defaults, since the builder's own defaults (e.g.
+ * double-sided, masked textures) would change how the asset looks.
+ */
+function readMaterial(content: GltfContent, materialIndex: number | undefined): Material | undefined {
+    const { gltf } = content;
+    // Primitives without a material use the glTF default material
+    const material = materialIndex === undefined ? {} : gltf.materials?.[materialIndex];
+    if (!material) return undefined;
+    const pbr = material.pbrMetallicRoughness || {};
+    const textureSettings: { [slot in TextureSlot]?: TextureSettings } = {};
+
+    // Resolves a texture info to its image, recording its sampler, UV set and transform
+    const readTexture = (slot: TextureSlot, info: any): string | undefined => {
+        if (!info) return undefined;
+        const texture = gltf.textures?.[info.index];
+        const uri = readImage(content, texture?.source);
+        if (!uri) return undefined;
+
+        const settings: TextureSettings = {};
+        const sampler = texture.sampler !== undefined ? gltf.samplers?.[texture.sampler] : undefined;
+        if (sampler) {
+            settings.sampler = { magFilter: sampler.magFilter, minFilter: sampler.minFilter, wrapS: sampler.wrapS, wrapT: sampler.wrapT };
+        }
+        const transform = info.extensions?.KHR_texture_transform;
+        const texCoord = transform?.texCoord ?? info.texCoord;
+        if (texCoord) settings.texCoord = texCoord;
+        if (transform) {
+            settings.transform = { offset: transform.offset, rotation: transform.rotation, scale: transform.scale };
+        }
+        if (Object.keys(settings).length > 0) textureSettings[slot] = settings;
+        return uri;
+    };
+
+    const emissiveTexture = readTexture('emissiveTexture', material.emissiveTexture);
+    return {
+        name: material.name,
+        baseColorFactor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+        baseColorTexture: readTexture('baseColorTexture', pbr.baseColorTexture),
+        metallicFactor: pbr.metallicFactor ?? 1,
+        roughnessFactor: pbr.roughnessFactor ?? 1,
+        metallicRoughnessTexture: readTexture('metallicRoughnessTexture', pbr.metallicRoughnessTexture),
+        normalTexture: readTexture('normalTexture', material.normalTexture),
+        normalScale: material.normalTexture?.scale,
+        occlusionTexture: readTexture('occlusionTexture', material.occlusionTexture),
+        occlusionStrength: material.occlusionTexture?.strength,
+        emissiveFactor: material.emissiveFactor ?? (emissiveTexture ? [0, 0, 0] : undefined),
+        emissiveTexture,
+        alphaMode: material.alphaMode ?? 'OPAQUE',
+        alphaCutoff: material.alphaCutoff,
+        doubleSided: material.doubleSided ?? false,
+        textureSettings: Object.keys(textureSettings).length > 0 ? textureSettings : undefined,
+    };
+}
+
+/**
+ * Reads every primitive of a mesh into one geometry, keeping one entry in
+ * `primitives` per source primitive so multi-material models (e.g. Tree Trunk vs
+ * Leaves) keep their materials.
+ */
+function readMeshGeometry(content: GltfContent, meshIndex: number, getAccessorData: (accessorIndex: number) => TypedArray): Geometry {
+    const { gltf } = content;
+    const mesh = gltf.meshes?.[meshIndex];
+    if (!mesh) {
+        throw new Error(`GLB file references missing mesh ${meshIndex}.`);
+    }
+
+    const getFloatData = (accessorIndex: number): Float32Array =>
+        toFloat32(getAccessorData(accessorIndex), gltf.accessors[accessorIndex]);
+
+    const parts: Geometry[] = [];
+
+    for (const [primitiveIndex, primitive] of (mesh.primitives || []).entries()) {
+        const owner = `meshes[${meshIndex}].primitives[${primitiveIndex}]`;
 
-    // 6. Iterate over ALL primitives
-    for (const primitive of primitives) {
         // --- Positions ---
         const positionAccessorIndex = primitive.attributes.POSITION;
         if (positionAccessorIndex === undefined) continue; 
         
-        const positions = getAccessorData(positionAccessorIndex) as Float32Array;
+        const positions = getFloatData(positionAccessorIndex);
         const vertexCount = positions.length / 3;
-        allPositions.push(positions);
 
         // --- Normals ---
         const normalAccessorIndex = primitive.attributes.NORMAL;
         let normals: Float32Array;
         if (normalAccessorIndex !== undefined) {
-            normals = getAccessorData(normalAccessorIndex) as Float32Array;
+            normals = getFloatData(normalAccessorIndex);
         } else {
             normals = new Float32Array(positions.length); // Zero normals
         }
-        allNormals.push(normals);
 
         // --- Colors ---
         // We will normalize all colors to RGBA (4 components) float32 [0-1]
@@ -195,8 +441,6 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
             const isVec4 = type === 'VEC4';
             const isVec3 = type === 'VEC3';
             const srcStride = isVec4 ? 4 : (isVec3 ? 3 : 0);
-            
-            if (isVec4) hasAlphaColor = true;
 
             let normFactor = 1.0;
             if (componentType === 5121) normFactor = 255.0; // UNSIGNED_BYTE
@@ -211,157 +455,450 @@ export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
         } else {
             // Fallback: No vertex colors. Use dummy white (will be overridden by material usually)
             // We do NOT bake material color here anymore, we let gltfBuilder handle material assignments via primitives
-            colors = new Float32Array(vertexCount * 4);
-            for (let k = 0; k < vertexCount; k++) {
-                colors[k * 4] = 1.0; 
-                colors[k * 4 + 1] = 1.0; 
-                colors[k * 4 + 2] = 1.0; 
-                colors[k * 4 + 3] = 1.0;
-            }
+            colors = new Float32Array(vertexCount * 4).fill(1.0);
         }
-        allColors.push(colors);
 
         // --- UVs ---
         const uvAccessorIndex = primitive.attributes.TEXCOORD_0;
-        let uvs: Float32Array;
-        if (uvAccessorIndex !== undefined) {
-            const accessor = gltf.accessors[uvAccessorIndex];
-            const rawUVs = getAccessorData(uvAccessorIndex);
-            const componentType = accessor.componentType;
-            const count = accessor.count;
-            
-            if (componentType === 5126) {
-                uvs = rawUVs as Float32Array;
-            } else {
-                uvs = new Float32Array(count * 2);
-                let normFactor = 1.0;
-                if (componentType === 5121) normFactor = 255.0;
-                if (componentType === 5123) normFactor = 65535.0;
-                
-                for(let i=0; i < count * 2; i++) {
-                    uvs[i] = rawUVs[i] / normFactor;
-                }
-            }
-        } else {
-             uvs = new Float32Array(vertexCount * 2); 
-        }
-        allUVs.push(uvs);
+        const uvs = uvAccessorIndex !== undefined ? getFloatData(uvAccessorIndex) : new Float32Array(vertexCount * 2);
+        const uv1AccessorIndex = primitive.attributes.TEXCOORD_1;
+        const uvs1 = uv1AccessorIndex !== undefined ? getFloatData(uv1AccessorIndex) : undefined;
+
+        // --- Feature IDs (written by static batching) ---
+        const featureIdAccessorIndex = primitive.attributes._FEATURE_ID_0;
+        const featureIds = featureIdAccessorIndex !== undefined ? getFloatData(featureIdAccessorIndex) : undefined;
+
+        // --- Tangents (kept as authored) ---
+        const tangentAccessorIndex = primitive.attributes.TANGENT;
+        const tangents = tangentAccessorIndex !== undefined ? getFloatData(tangentAccessorIndex) : undefined;
 
         // --- Indices ---
+        // 16 and 32-bit index buffers keep their width; byte indices are widened
         const indicesAccessorIndex = primitive.indices;
-        let indices: Uint16Array;
+        let indices: IndexArray;
         if (indicesAccessorIndex !== undefined) {
             const rawIndices = getAccessorData(indicesAccessorIndex);
-            if (rawIndices instanceof Uint16Array) {
+            if (rawIndices instanceof Uint16Array || rawIndices instanceof Uint32Array) {
                 indices = rawIndices;
             } else {
                 indices = new Uint16Array(rawIndices);
             }
+            for (let i = 0; i < indices.length; i++) {
+                if (indices[i] >= vertexCount) {
+                    throw new Error(`${owner} uses index ${indices[i]}, but it only has ${vertexCount} vertices.`);
+                }
+            }
         } else {
-            indices = new Uint16Array(vertexCount);
+            indices = vertexCount < 65535 ? new Uint16Array(vertexCount) : new Uint32Array(vertexCount);
             for (let i = 0; i < vertexCount; i++) {
                 indices[i] = i;
             }
         }
-        allIndices.push(indices);
 
-        // --- Material/Texture Info ---
-        let primTexture: string | undefined = undefined;
-        let primBaseColor: [number, number, number, number] | undefined = undefined;
-
-        if (primitive.material !== undefined) {
-            const material = gltf.materials?.[primitive.material];
-            if (material) {
-                const pbr = material.pbrMetallicRoughness;
-                if (pbr) {
-                    if (pbr.baseColorFactor) {
-                        primBaseColor = pbr.baseColorFactor;
-                    }
-                    if (pbr.baseColorTexture) {
-                         const textureIndex = pbr.baseColorTexture.index;
-                         const tex = gltf.textures?.[textureIndex];
-                         const imageIndex = tex?.source;
-                         const image = gltf.images?.[imageIndex];
-                         
-                         if (image && image.bufferView !== undefined) {
-                             const bv = gltf.bufferViews[image.bufferView];
-                             const start = (bv.byteOffset || 0);
-                             const len = bv.byteLength;
-                             const imgBuffer = binaryBuffer!.slice(start, start + len);
-                             const base64 = arrayBufferToBase64(imgBuffer);
-                             const mime = image.mimeType || 'image/png';
-                             primTexture = `data:${mime};base64,${base64}`;
-                         } else if (image && image.uri && image.uri.startsWith('data:')) {
-                             primTexture = image.uri;
-                         }
-                    }
-                }
-            }
+        // --- Primitive mode ---
+        // Strips and fans become triangle lists; points and lines keep their mode
+        const mode = primitive.mode ?? 4;
+        if (mode === 5 || mode === 6) {
+            indices = triangulate(indices, mode);
+        } else if (!(mode >= 0 && mode <= 4)) {
+            throw new Error(`${owner} has unsupported primitive mode ${mode}.`);
         }
 
-        // Store primitive metadata for reconstruction
-        geometryPrimitives.push({
-            indicesOffset: totalIndexCount, // Start index in the merged array
-            indicesCount: indices.length,
-            texture: primTexture,
-            color: primBaseColor
+        // --- Material/Texture Info ---
+        const primMaterial = readMaterial(content, primitive.material);
+
+        parts.push({
+            positions,
+            normals,
+            colors,
+            uvs,
+            uvs1,
+            tangents,
+            featureIds,
+            indices,
+            primitives: [{
+                indicesOffset: 0,
+                indicesCount: indices.length,
+                texture: primMaterial?.baseColorTexture,
+                color: primMaterial?.baseColorFactor,
+                material: primMaterial,
+                mode: mode < 4 ? mode : undefined
+            }]
         });
+    }
+
+    return mergeGeometries(parts);
+}
 
-        totalVertexCount += vertexCount;
-        totalIndexCount += indices.length;
+/**
+ * Converts TRIANGLE_STRIP (5) or TRIANGLE_FAN (6) indices to a triangle list with the
+ * same winding, dropping degenerate triangles.
+ */
+function triangulate(indices: IndexArray, mode: number): IndexArray {
+    const triangles: number[] = [];
+    for (let i = 0; i + 2 < indices.length; i++) {
+        let a: number, b: number, c: number;
+        if (mode === 5) {
+            // Every other strip triangle is reversed to keep the winding consistent
+            a = indices[i];
+            b = indices[i + 1 + (i % 2)];
+            c = indices[i + 2 - (i % 2)];
+        } else {
+            a = indices[i + 1];
+            b = indices[i + 2];
+            c = indices[0];
+        }
+        if (a !== b && b !== c && a !== c) triangles.push(a, b, c);
     }
+    return indices instanceof Uint32Array ? Uint32Array.from(triangles) : Uint16Array.from(triangles);
+}
 
-    // 7. Merge all data into single TypedArrays
-    const mergedPositions = new Float32Array(totalVertexCount * 3);
-    const mergedNormals = new Float32Array(totalVertexCount * 3);
-    // Always use 4 components for colors internally to support alpha
-    const mergedColors = new Float32Array(totalVertexCount * 4); 
-    const mergedUVs = new Float32Array(totalVertexCount * 2);
-    const mergedIndices = new Uint16Array(totalIndexCount);
+// Reads meshes on first use, so nodes reusing a mesh share one Geometry object
+function createMeshReader(content: GltfContent, getAccessorData: (accessorIndex: number) => TypedArray): (meshIndex: number) => Geometry {
+    const meshGeometries = new Map<number, Geometry>();
+    return (meshIndex: number): Geometry => {
+        let geometry = meshGeometries.get(meshIndex);
+        if (!geometry) {
+            geometry = readMeshGeometry(content, meshIndex, getAccessorData);
+            meshGeometries.set(meshIndex, geometry);
+        }
+        return geometry;
+    };
+}
 
-    let vOffset = 0; // Vertex element offset (float count)
-    let iOffset = 0; // Index offset (int count)
-    let indexBase = 0; // Base value to add to indices
+// Node transform as a matrix, from either `matrix` or translation/rotation/scale
+function nodeMatrix(node: any): Mat4 {
+    if (node.matrix) return node.matrix;
+    return composeTrs({ translation: node.translation || [0, 0, 0], rotation: node.rotation, scale: node.scale });
+}
 
-    for (let i = 0; i < allPositions.length; i++) {
-        const pos = allPositions[i];
-        const norm = allNormals[i];
-        const col = allColors[i];
-        const uv = allUVs[i];
-        const ind = allIndices[i];
+// Per-instance transforms of an EXT_mesh_gpu_instancing node, or null for plain nodes
+function instanceMatrices(gltf: any, node: any, getAccessorData: (accessorIndex: number) => TypedArray): Mat4[] | null {
+    const attributes = node.extensions?.EXT_mesh_gpu_instancing?.attributes;
+    if (!attributes) return null;
 
-        mergedPositions.set(pos, vOffset);
-        mergedNormals.set(norm, vOffset);
-        mergedColors.set(col, vOffset * (4/3)); // vOffset is based on VEC3, scale for VEC4
-        mergedUVs.set(uv, (vOffset / 3) * 2);
+    const read = (name: string): Float32Array | undefined => {
+        const index = attributes[name];
+        return index !== undefined ? toFloat32(getAccessorData(index), gltf.accessors[index]) : undefined;
+    };
+    const translations = read('TRANSLATION');
+    const rotations = read('ROTATION');
+    const scales = read('SCALE');
+    const count = gltf.accessors[attributes.TRANSLATION ?? attributes.ROTATION ?? attributes.SCALE]?.count ?? 0;
+
+    const matrices: Mat4[] = [];
+    for (let i = 0; i < count; i++) {
+        matrices.push(composeTrs({
+            translation: translations ? [translations[i * 3], translations[i * 3 + 1], translations[i * 3 + 2]] : [0, 0, 0],
+            rotation: rotations ? [rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2], rotations[i * 4 + 3]] : undefined,
+            scale: scales ? [scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]] : undefined,
+        }));
+    }
+    return matrices;
+}
 
-        // Update indices: add current indexBase to every index
-        for (let j = 0; j < ind.length; j++) {
-            mergedIndices[iOffset + j] = ind[j] + indexBase;
-        }
+// Root nodes of the default scene; without scenes, every node that has no parent
+function sceneRoots(gltf: any): number[] {
+    const scenes = gltf.scenes || [];
+    if (scenes.length > 0) {
+        return scenes[gltf.scene ?? 0]?.nodes || [];
+    }
+    const childNodes = new Set<number>((gltf.nodes || []).flatMap((node: any) => node.children || []));
+    return (gltf.nodes || []).map((_: any, i: number) => i).filter((i: number) => !childNodes.has(i));
+}
 
-        const vertexCount = pos.length / 3;
-        vOffset += pos.length;
-        iOffset += ind.length;
-        indexBase += vertexCount;
+// Matrix applying a quantization frame to stored positions: T(offset) * S(scale)
+function frameMatrix(frame: QuantizationFrame): Mat4 {
+    return composeTrs({ translation: frame.offset, scale: [frame.scale, frame.scale, frame.scale] });
+}
+
+// Takes a quantization frame the builder folded into a transform back out of it,
+// inverting T * R * S * T(offset) * S(scale)
+function unfoldQuantizationFrame(trs: Trs, frame: QuantizationFrame): Trs {
+    const scale = (trs.scale || [1, 1, 1]).map(s => s / frame.scale) as [number, number, number];
+    const m = composeTrs({ translation: [0, 0, 0], rotation: trs.rotation, scale });
+    const [ox, oy, oz] = frame.offset;
+    const unfolded: Trs = {
+        translation: [0, 1, 2].map(r => trs.translation[r] - (m[r] * ox + m[4 + r] * oy + m[8 + r] * oz)) as [number, number, number],
+    };
+    if (trs.rotation) unfolded.rotation = trs.rotation;
+    // Shapes without a scale of their own get back none
+    if (scale.some(s => Math.abs(s - 1) > 1e-6)) unfolded.scale = scale;
+    return unfolded;
+}
+
+/**
+ * Bakes the default scene into a single geometry: every mesh node's world transform
+ * (including GPU instances) is applied to the vertex data, so meshes reused by several
+ * nodes appear once per node. Assets without nodes contribute all their meshes
+ * untransformed. Each source primitive stays a separate entry in `primitives` to keep
+ * its material.
+ */
+function bakeScene(content: GltfContent): Geometry {
+    const { gltf } = content;
+    if (!gltf.meshes?.length) {
+        throw new Error('Model does not contain any meshes.');
+    }
+    const getAccessorData = createAccessorReader(content);
+    const getMeshGeometry = createMeshReader(content, getAccessorData);
+
+    const parts: Geometry[] = [];
+    if (gltf.nodes?.length) {
+        const visited = new Set<number>();
+        const visit = (nodeIndex: number, parentWorld: Mat4) => {
+            const node = gltf.nodes[nodeIndex];
+            if (!node || visited.has(nodeIndex)) return; // Guards against malformed cyclic hierarchies
+            visited.add(nodeIndex);
+            const world = multiply(parentWorld, nodeMatrix(node));
+            if (node.mesh !== undefined) {
+                const geometry = getMeshGeometry(node.mesh);
+                const instances = instanceMatrices(gltf, node, getAccessorData) || [IDENTITY];
+                for (const instance of instances) {
+                    parts.push(transformGeometry(geometry, multiply(world, instance)));
+                }
+            }
+            for (const child of node.children || []) visit(child, world);
+        };
+        for (const root of sceneRoots(gltf)) visit(root, IDENTITY);
+    } else {
+        gltf.meshes.forEach((_: any, i: number) => parts.push(getMeshGeometry(i)));
     }
 
-    // If no alpha was actually found, we could optimize back to VEC3, but VEC4 is safer for consistency
-    // However, if strict compatibility with other parts of the app is needed (which expect VEC3/Float32Array size)
-    // we might need to be careful. The new gltfBuilder will handle VEC4.
-    
-    // Fallback global texture (first one found) for legacy support
-    const fallbackTexture = geometryPrimitives.find(p => p.texture)?.texture;
+    const geometry = mergeGeometries(parts);
+    if (!geometry.primitives?.length) {
+        throw new Error('Model scene does not contain any mesh primitives.');
+    }
+    return geometry;
+}
 
-    return { 
-        positions: mergedPositions, 
-        normals: mergedNormals, 
-        indices: mergedIndices, 
-        colors: mergedColors, 
-        uvs: mergedUVs, 
-        texture: fallbackTexture,
-        primitives: geometryPrimitives
+/**
+ * Reads the translation, rotation and scale channels of every animation, grouped by
+ * target node. Cubic spline tracks keep their values and play back linearly.
+ */
+function readNodeAnimations(gltf: any, getFloatData: (accessorIndex: number) => Float32Array): Map<number, ShapeAnimation[]> {
+    const result = new Map<number, ShapeAnimation[]>();
+    (gltf.animations || []).forEach((animation: any, a: number) => {
+        const perNode = new Map<number, ShapeAnimation>();
+        for (const channel of animation.channels || []) {
+            const { node, path } = channel.target || {};
+            if (node === undefined || (path !== 'translation' && path !== 'rotation' && path !== 'scale')) continue;
+            const sampler = animation.samplers[channel.sampler];
+            const times = Array.from(getFloatData(sampler.input));
+            let values = Array.from(getFloatData(sampler.output));
+            let interpolation = sampler.interpolation ?? 'LINEAR';
+            if (interpolation === 'CUBICSPLINE') {
+                // Each keyframe stores in-tangent, value, out-tangent
+                const size = path === 'rotation' ? 4 : 3;
+                values = times.flatMap((_, i) => values.slice((i * 3 + 1) * size, (i * 3 + 2) * size));
+                interpolation = 'LINEAR';
+            }
+
+            let entry = perNode.get(node);
+            if (!entry) {
+                // Unnamed animations stay separate instead of merging into the default one
+                entry = { name: animation.name ?? `Animation ${a}` };
+                perNode.set(node, entry);
+                result.set(node, [...(result.get(node) || []), entry]);
+            }
+            entry[path as 'translation' | 'rotation' | 'scale'] = { times, values, interpolation };
+        }
+    });
+    return result;
+}
+
+/**
+ * Converts the default scene into shapes mirroring its node hierarchy, ready to be
+ * edited and exported again. Node matrices are decomposed into translation/rotation/
+ * scale, node extras, lights, perspective cameras and TRS animations are kept, and
+ * meshes with a single triangle primitive carry their base color as `Shape.color`.
+ * Nodes whose meshes use the same vertex data share one Geometry object so the
+ * builder writes it once. GPU-instanced nodes get one child shape per instance.
+ *
+ * Files written by this app (recognized by `asset.generator`) are mapped back to the
+ * shapes that produced them: instancing nodes dissolve into their instances, which get
+ * their names and extras back from `extras.instances`, mesh nodes added to apply a
+ * quantization frame are merged into their parent, and frames folded into node or
+ * instance transforms move back into the geometry.
+ */
+function readSceneShapes(content: GltfContent): Shape[] {
+    const { gltf } = content;
+    const getAccessorData = createAccessorReader(content);
+    const getMeshGeometry = createMeshReader(content, getAccessorData);
+    const getFloatData = (accessorIndex: number): Float32Array =>
+        toFloat32(getAccessorData(accessorIndex), gltf.accessors[accessorIndex]);
+    const generated = gltf.asset?.generator === GENERATOR;
+    const nodeAnimations = readNodeAnimations(gltf, getFloatData);
+
+    const lights: Light[] = (gltf.extensions?.KHR_lights_punctual?.lights || []).map((def: any): Light => ({
+        type: def.type,
+        name: def.name,
+        color: def.color,
+        intensity: def.intensity,
+        range: def.range,
+        innerConeAngle: def.spot?.innerConeAngle,
+        outerConeAngle: def.spot?.outerConeAngle,
+    }));
+    const cameras: (Camera | undefined)[] = (gltf.cameras || []).map((def: any) => def.type === 'perspective' ? {
+        name: def.name,
+        yfov: def.perspective.yfov,
+        znear: def.perspective.znear,
+        zfar: def.perspective.zfar,
+        aspectRatio: def.perspective.aspectRatio,
+    } : undefined);
+
+    // Geometry, material and color of a mesh, optionally with a transform baked in
+    const sharedGeometries = new Map<string, Geometry>();
+    const getMeshShape = (meshIndex: number, transform?: Mat4): Pick<Shape, 'geometry' | 'material' | 'color'> => {
+        const geometry = getMeshGeometry(meshIndex);
+        const primitive = geometry.primitives?.[0];
+        const single = geometry.primitives?.length === 1 && isTriangleList(primitive!);
+        const source = gltf.meshes[meshIndex].primitives.find((prim: any) => prim.attributes.POSITION !== undefined);
+
+        // A single primitive's material moves to the shape, so meshes that only differ
+        // in material share the geometry
+        const key = `${single ? JSON.stringify([source.attributes, source.indices]) : meshIndex}:${transform ? transform.join(',') : ''}`;
+        let shared = sharedGeometries.get(key);
+        if (!shared) {
+            shared = transform ? transformGeometry(geometry, transform) : geometry;
+            // Colors and UVs the file does not have were only filled in to merge primitives
+            const hasAttribute = (name: string) => gltf.meshes[meshIndex].primitives.some((prim: any) => prim.attributes[name] !== undefined);
+            shared = {
+                ...shared,
+                colors: hasAttribute('COLOR_0') ? shared.colors : undefined,
+                uvs: hasAttribute('TEXCOORD_0') ? shared.uvs : undefined,
+            };
+            if (single) {
+                const { texture, primitives, ...rest } = shared;
+                shared = rest;
+            }
+            sharedGeometries.set(key, shared);
+        }
+        if (!single || !primitive!.material) return { geometry: shared };
+
+        const { baseColorFactor, ...material } = primitive!.material;
+        return { geometry: shared, material, color: baseColorFactor };
+    };
+
+    // Frame of a quantized mesh written by the builder, see `unfoldQuantizationFrame`
+    const getQuantizationFrame = (meshIndex: number): QuantizationFrame | undefined =>
+        generated ? gltf.meshes[meshIndex].extras?.quantizationFrame : undefined;
+
+    // The builder moves a quantized mesh to an unnamed child node that applies the
+    // quantization frame when the frame cannot be folded into the shape's own node
+    const isFrameNode = (parent: any, nodeIndex: number): boolean => {
+        const node = gltf.nodes[nodeIndex];
+        const position = node?.mesh !== undefined ? gltf.meshes[node.mesh]?.primitives?.[0]?.attributes.POSITION : undefined;
+        return position !== undefined && gltf.accessors[position].componentType !== 5126
+            && parent.mesh === undefined && parent.children[0] === nodeIndex
+            && (parent.children.length > 1 || nodeAnimations.has(gltf.nodes.indexOf(parent)) || parent.camera !== undefined || !!parent.extensions?.KHR_lights_punctual)
+            && !node.name && !node.children?.length && !node.rotation && !node.matrix && !node.extensions?.EXT_mesh_gpu_instancing
+            && !nodeAnimations.has(nodeIndex);
+    };
+
+    const toShapes = (nodeIndex: number, ancestors: Set<number>): Shape[] => {
+        const node = gltf.nodes?.[nodeIndex];
+        if (!node || ancestors.has(nodeIndex)) return [];
+        const path = new Set(ancestors).add(nodeIndex);
+
+        const trs = node.matrix
+            ? decomposeMatrix(node.matrix)
+            : { translation: node.translation || [0, 0, 0], rotation: node.rotation, scale: node.scale };
+        const shape: Shape = { translation: trs.translation };
+        if (trs.rotation) shape.rotation = trs.rotation;
+        if (trs.scale) shape.scale = trs.scale;
+        if (node.name) shape.name = node.name;
+
+        // MSFT_screencoverage belongs to the level-of-detail nodes, which are rebuilt on export
+        const extras = { ...node.extras };
+        if (node.extensions?.MSFT_lod) delete extras.MSFT_screencoverage;
+        if (Object.keys(extras).length > 0) shape.extras = extras;
+        const light = lights[node.extensions?.KHR_lights_punctual?.light];
+        if (light) shape.light = light;
+        const camera = node.camera !== undefined ? cameras[node.camera] : undefined;
+        if (camera) shape.camera = camera;
+        const animations = nodeAnimations.get(nodeIndex);
+        if (animations) shape.animations = animations;
+
+        let childIndices: number[] = node.children || [];
+        if (generated && childIndices.length > 0 && isFrameNode(node, childIndices[0])) {
+            const frameNode = gltf.nodes[childIndices[0]];
+            Object.assign(shape, getMeshShape(frameNode.mesh, nodeMatrix(frameNode)));
+            childIndices = childIndices.slice(1);
+        }
+        const children = childIndices.flatMap(child => toShapes(child, path));
+
+        if (node.mesh !== undefined) {
+            const instances = instanceMatrices(gltf, node, getAccessorData);
+            const frame = getQuantizationFrame(node.mesh);
+            if (instances) {
+                const meshShape = getMeshShape(node.mesh, frame && frameMatrix(frame));
+                const info: any[] | undefined = generated && node.extras?.instances?.length === instances.length ? node.extras.instances : undefined;
+                const instanceShapes = instances.map((instance, i): Shape => {
+                    const instanceTrs = frame ? unfoldQuantizationFrame(decomposeMatrix(instance), frame) : decomposeMatrix(instance);
+                    const instanceShape: Shape = { ...instanceTrs, ...meshShape };
+                    if (info?.[i]?.name) instanceShape.name = info[i].name;
+                    if (info?.[i]?.extras) instanceShape.extras = info[i].extras;
+                    return instanceShape;
+                });
+                if (info) {
+                    const { instances: _, ...rest } = shape.extras!;
+                    if (Object.keys(rest).length > 0) shape.extras = rest;
+                    else delete shape.extras;
+                }
+                // The builder collapses sibling shapes into an instancing node without a transform of its own
+                const plain = !node.name && !node.translation && !node.rotation && !node.scale && !node.matrix;
+                if (generated && plain && !shape.extras && !animations && children.length === 0) {
+                    return instanceShapes;
+                }
+                children.unshift(...instanceShapes);
+            } else if (frame) {
+                const { translation, scale } = unfoldQuantizationFrame(trs, frame);
+                shape.translation = translation;
+                if (scale) shape.scale = scale;
+                else delete shape.scale;
+                Object.assign(shape, getMeshShape(node.mesh, frameMatrix(frame)));
+            } else {
+                Object.assign(shape, getMeshShape(node.mesh));
+            }
+        }
+        if (children.length > 0) shape.children = children;
+        return [shape];
     };
+
+    if (!gltf.nodes?.length) {
+        return (gltf.meshes || []).map((_: any, i: number): Shape => ({ ...getMeshShape(i), translation: [0, 0, 0] }));
+    }
+    return sceneRoots(gltf).flatMap(root => toShapes(root, new Set()));
+}
+
+/**
+ * Parses a GLB file's ArrayBuffer into a single geometry with the scene's transforms baked in.
+ */
+export async function parseGlb(arrayBuffer: ArrayBuffer): Promise<Geometry> {
+    return bakeScene(readGlb(arrayBuffer));
+}
+
+/**
+ * Parses a GLB file's ArrayBuffer into shapes mirroring its node hierarchy.
+ */
+export async function parseGlbScene(arrayBuffer: ArrayBuffer): Promise<Shape[]> {
+    return readSceneShapes(readGlb(arrayBuffer));
+}
+
+/**
+ * Parses a .gltf file into a single geometry with the scene's transforms baked in.
+ * External buffers and images are looked up in `files`; missing ones raise an error
+ * naming the file.
+ */
+export async function parseGltf(json: string, files: ModelFiles = {}): Promise<Geometry> {
+    return bakeScene(readGltf(json, files));
+}
+
+/**
+ * Parses a .gltf file into shapes mirroring its node hierarchy.
+ */
+export async function parseGltfScene(json: string, files: ModelFiles = {}): Promise<Shape[]> {
+    return readSceneShapes(readGltf(json, files));
 }
 
 // A generic TypedArray type for the helper function
@@ -0,0 +1,63 @@
+
+import { describe, expect, it } from 'vitest';
+import { createCube } from './geometry';
+import { parseGeoJsonToShapes } from './geojsonParser';
+import { parseGlbScene } from './glbParser';
+import { buildGlb, type Shape } from './gltfBuilder';
+import { validateGlb } from './gltfValidator';
+
+const readGlbJson = (glb: ArrayBuffer) => {
+  const view = new DataView(glb);
+  return JSON.parse(new TextDecoder().decode(new Uint8Array(glb, 20, view.getUint32(12, true))));
+};
+
+const square = (lon: number, lat: number, size: number) =>
+  [[[lon, lat], [lon + size, lat], [lon + size, lat + size], [lon, lat + size], [lon, lat]]];
+
+describe('buildGlb quantization', () => {
+  const shapes: Shape[] = [{ geometry: createCube(), translation: [0, 0, 0] }];
+
+  it('accepts precisions from 2 to 16 bits', () => {
+    for (const bits of [2, 8, 9, 16]) {
+      const glb = buildGlb(shapes, { quantization: { positionBits: bits, normalBits: bits, uvBits: bits, colorBits: bits } });
+      expect(validateGlb(glb).errorCount).toBe(0);
+    }
+  });
+
+  it('rejects precisions the storage types cannot hold', () => {
+    for (const bits of [0, 1, 17, 32, 8.5]) {
+      expect(() => buildGlb(shapes, { quantization: { positionBits: bits } })).toThrow(/positionBits must be a whole number from 2 to 16/);
+    }
+  });
+});
+
+describe('buildGlb instancing', () => {
+  const geojson = JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { type: 'asset' }, geometry: { type: 'Polygon', coordinates: square(0, 0, 0.01) } },
+      ...[1, 2, 3].map(i => ({
+        type: 'Feature',
+        properties: { type: 'tree', name: `oak-${i}`, height: i },
+        geometry: { type: 'Polygon', coordinates: square(i * 0.002, i * 0.002, 0.0005) }
+      }))
+    ]
+  });
+
+  it('instances named GeoJSON trees and keeps their names and extras', async () => {
+    const shapes = await parseGeoJsonToShapes(geojson, {}, { sunAndCamera: false });
+    const glb = buildGlb(shapes, { instancing: true });
+    expect(validateGlb(glb).errorCount).toBe(0);
+
+    const instanced = readGlbJson(glb).nodes.filter((node: any) => node.extensions?.EXT_mesh_gpu_instancing);
+    expect(instanced).toHaveLength(1);
+    expect(instanced[0].extras.instances).toEqual([1, 2, 3].map(i => ({
+      name: `oak-${i}`,
+      extras: { type: 'tree', name: `oak-${i}`, height: i }
+    })));
+
+    const trees = (await parseGlbScene(glb)).filter(shape => shape.extras?.type === 'tree');
+    expect(trees.map(tree => tree.name)).toEqual(['oak-1', 'oak-2', 'oak-3']);
+    expect(trees.map(tree => tree.extras?.height)).toEqual([1, 2, 3]);
+  });
+});
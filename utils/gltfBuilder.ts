@@ -1,25 +1,95 @@
 
 import type { Geometry } from './geometry';
+import { DEFAULT_ANIMATION_NAME, type Keyframes, type ShapeAnimation, type TextureOffsetAnimation } from './animation';
+import { generateTangents } from './tangents';
+import { simplifyGeometry } from './simplify';
+import type { Camera, Light } from './sceneSetup';
+import type { ZipEntry } from './zip';
+import { bytesEqual, decodeDataUri, detectImageMimeType, hashBytes } from './imageData';
+import { arrayBufferToBase64 } from './modelFiles';
+import { mergeMaterials, type AlphaMode, type Material, type TextureSampler, type TextureSettings, type TextureTransform } from './material';
 
 export interface Shape {
-  geometry: Geometry;
+  geometry?: Geometry; // Omitted for pure group nodes
   translation: [number, number, number];
   rotation?: [number, number, number, number]; // Quaternion [x, y, z, w]
   scale?: [number, number, number]; // [x, y, z]
   color?: [number, number, number, number]; // RGBA color, used if no vertex colors
+  material?: Material; // Overrides properties of the geometry's materials
+  name?: string; // Written as the glTF node name
+  extras?: { [key: string]: any }; // Application data written into the glTF node extras
+  children?: Shape[]; // Child shapes, transformed relative to this one
+  animations?: ShapeAnimation[]; // Keyframed TRS channels for this shape's node
+  light?: Light; // Punctual light attached to this shape's node
+  camera?: Camera; // Perspective camera attached to this shape's node
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return window.btoa(binary);
+export interface GltfExportOptions {
+  instancing?: boolean; // Collapse shapes sharing a mesh into one node via EXT_mesh_gpu_instancing
+  instancingFallback?: boolean; // With instancing, add a second scene with one node per shape
+  lod?: LodOptions; // Add simplified levels of detail to every mesh node via MSFT_lod
+  quantization?: QuantizationOptions; // Store vertex attributes as normalized integers via KHR_mesh_quantization
+}
+
+// Levels of detail written through MSFT_lod
+export interface LodOptions {
+  ratios: number[]; // Fraction of triangles kept by each simplified level, from most to least detailed
+  screenCoverage: number[]; // Minimum screen coverage of the full mesh and then of each level; below the last the node is culled
+}
+
+// Written to asset.generator, which lets the scene importer recognize files it can map back to shapes
+export const GENERATOR = 'React GLTF Scene Generator';
+
+export const DEFAULT_LOD_OPTIONS: LodOptions = { ratios: [0.5, 0.15], screenCoverage: [0.25, 0.08, 0.01] };
+
+// Attribute precision in bits (2-16) for KHR_mesh_quantization. Up to 8 bits are stored
+// as bytes, anything above as shorts. Other values are rejected.
+export interface QuantizationOptions {
+  positionBits?: number;
+  normalBits?: number; // Normals and tangents
+  uvBits?: number;     // UVs outside 0..1 cannot be normalized and stay float
+  colorBits?: number;
+}
+
+export const DEFAULT_QUANTIZATION: Required<QuantizationOptions> = { positionBits: 14, normalBits: 8, uvBits: 12, colorBits: 8 };
+
+// Maps quantized positions back to model space: position = offset + scale * stored.
+// Written to the mesh's `extras.quantizationFrame` so imports can restore the geometry.
+export interface QuantizationFrame {
+  offset: [number, number, number];
+  scale: number; // Uniform, so normals stay valid without correction
 }
 
+// A shape that carries geometry and therefore maps to a glTF mesh
+type MeshShape = Shape & { geometry: Geometry };
+
+// Accessors written for a Geometry instance, reused by every shape that shares it
+interface GeometryAccessors {
+  id: number;
+  attributes: { [key: string]: number };
+  indexAccessors: number[]; // One per GeometryPrimitive, or a single full-range accessor
+  tangentAccessor?: number; // Written on demand, only for meshes that need it
+  featureCount?: number; // Distinct feature IDs in _FEATURE_ID_0, when present
+}
+
+// How decodable data URI textures are written:
+// - 'dataUri': kept inline in the JSON (.gltf)
+// - 'bufferView': stored in the binary buffer (.glb)
+// - 'file': returned as separate files referenced by relative URIs (multi-file .gltf)
+type ImageStorage = 'dataUri' | 'bufferView' | 'file';
+
+const IMAGE_FILE_EXTENSIONS: { [mimeType: string]: string } = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/ktx2': 'ktx2',
+};
+
+// Linear mipmapped filtering with repeat wrapping, used for textures without sampler settings
+const DEFAULT_SAMPLER: Required<TextureSampler> = { magFilter: 9729, minFilter: 9987, wrapS: 10497, wrapT: 10497 };
+
 // Internal function to generate the JSON structure and binary buffer
-function generateGltfParts(shapes: Shape[]): { gltf: any; combinedBuffer: ArrayBuffer } {
+function generateGltfParts(shapes: Shape[], options: GltfExportOptions = {}, imageStorage: ImageStorage = 'dataUri'): { gltf: any; combinedBuffer: ArrayBuffer; imageFiles: ZipEntry[] } {
   const accessors: any[] = [];
   const bufferViews: any[] = [];
   const meshes: any[] = [];
@@ -27,97 +97,361 @@ function generateGltfParts(shapes: Shape[]): { gltf: any; combinedBuffer: ArrayB
   const materials: any[] = [];
   const textures: any[] = [];
   const images: any[] = [];
-  const samplers: any[] = [{ magFilter: 9729, minFilter: 9987, wrapS: 10497, wrapT: 10497 }]; // Default sampler
+  const samplers: any[] = [];
   
   const materialMap = new Map<string, number>();
-  const textureMap = new Map<string, number>();
-
-  // --- 1. Aggregate all geometry data into single arrays ---
-  const totalPosElements = shapes.reduce((acc, s) => acc + s.geometry.positions.length, 0);
-  const totalNormElements = shapes.reduce((acc, s) => acc + s.geometry.normals.length, 0);
-  const totalColorElements = shapes.reduce((acc, s) => acc + (s.geometry.colors ? s.geometry.colors.length : 0), 0);
-  const totalUVElements = shapes.reduce((acc, s) => acc + (s.geometry.uvs ? s.geometry.uvs.length : 0), 0);
-  const totalIndexElements = shapes.reduce((acc, s) => acc + s.geometry.indices.length, 0);
-
-  const allPositions = new Float32Array(totalPosElements);
-  const allNormals = new Float32Array(totalNormElements);
-  const allColors = new Float32Array(totalColorElements);
-  const allUVs = new Float32Array(totalUVElements);
-  const allIndices = new Uint16Array(totalIndexElements);
-
-  let pOffset = 0, nOffset = 0, cOffset = 0, uvOffset = 0, iOffset = 0;
-  for (const shape of shapes) {
-    allPositions.set(shape.geometry.positions, pOffset);
-    allNormals.set(shape.geometry.normals, nOffset);
-    if (shape.geometry.colors) {
-      allColors.set(shape.geometry.colors, cOffset);
+  const textureMap = new Map<string, number>(); // Image and sampler index -> texture index
+  const samplerMap = new Map<string, number>();
+  const imageUriMap = new Map<string, number>();
+  const imageFiles: ZipEntry[] = [];
+  const imageHashMap = new Map<string, { bytes: Uint8Array; index: number }[]>();
+  const extensionsUsed = new Set<string>();
+
+  // --- 1. Binary buffer writer ---
+  // Every attribute and index range gets its own buffer view. Views start on a
+  // 4-byte boundary so that any component type can be read at its offset.
+  const binaryChunks: Uint8Array[] = [];
+  let totalByteLength = 0;
+
+  const addBufferView = (data: ArrayBufferView, target?: number, byteStride?: number): number => {
+    const padding = (4 - (totalByteLength % 4)) % 4;
+    if (padding > 0) {
+      binaryChunks.push(new Uint8Array(padding));
+      totalByteLength += padding;
+    }
+    const view: any = { buffer: 0, byteOffset: totalByteLength, byteLength: data.byteLength };
+    if (byteStride !== undefined) view.byteStride = byteStride;
+    if (target !== undefined) view.target = target;
+    binaryChunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    totalByteLength += data.byteLength;
+    bufferViews.push(view);
+    return bufferViews.length - 1;
+  };
+
+  // Writes an index range with the narrowest component type that can hold it.
+  // UNSIGNED_SHORT is used while every index stays below 65535 (the restart value),
+  // otherwise the range is written as UNSIGNED_INT.
+  const addIndexAccessor = (indices: ArrayLike<number>, start: number, count: number): number => {
+    let maxIndex = 0;
+    for (let i = start; i < start + count; i++) {
+      if (indices[i] > maxIndex) maxIndex = indices[i];
     }
-    if (shape.geometry.uvs) {
-      allUVs.set(shape.geometry.uvs, uvOffset);
+    const use32Bit = maxIndex >= 65535;
+    const data = use32Bit ? new Uint32Array(count) : new Uint16Array(count);
+    for (let i = 0; i < count; i++) {
+      data[i] = indices[start + i];
     }
-    allIndices.set(shape.geometry.indices, iOffset);
+    const accessorIdx = accessors.length;
+    accessors.push({
+      bufferView: addBufferView(data, 34963),
+      componentType: use32Bit ? 5125 : 5123,
+      count,
+      type: 'SCALAR'
+    });
+    return accessorIdx;
+  };
 
-    pOffset += shape.geometry.positions.length;
-    nOffset += shape.geometry.normals.length;
-    cOffset += shape.geometry.colors ? shape.geometry.colors.length : 0;
-    uvOffset += shape.geometry.uvs ? shape.geometry.uvs.length : 0;
-    iOffset += shape.geometry.indices.length;
-  }
-  
-  // --- 2. Create the combined buffer and buffer views ---
-  const posBufferByteLength = allPositions.byteLength;
-  const normBufferByteLength = allNormals.byteLength;
-  const colorBufferByteLength = allColors.byteLength;
-  const uvBufferByteLength = allUVs.byteLength;
-  const indexBufferByteLength = allIndices.byteLength;
-
-  const totalByteLength = posBufferByteLength + normBufferByteLength + colorBufferByteLength + uvBufferByteLength + indexBufferByteLength;
-  const combinedBuffer = new ArrayBuffer(totalByteLength);
-  const combinedBufferView = new Uint8Array(combinedBuffer);
+  // --- 2. Animations ---
+  // Channels are grouped into glTF animations by name. Sampler inputs are shared
+  // whenever several channels use the same keyframe times.
+  const animationMap = new Map<string, { name: string; channels: any[]; samplers: any[] }>();
+  const timeAccessorMap = new Map<string, number>();
+
+  const addAnimationChannel = (animationName: string | undefined, keyframes: Keyframes, type: 'VEC2' | 'VEC3' | 'VEC4', target: any) => {
+    const componentCount = type === 'VEC2' ? 2 : type === 'VEC3' ? 3 : 4;
+    const { times, values } = keyframes;
+    if (times.length === 0 || values.length !== times.length * componentCount) {
+      throw new Error(`Animation keyframes need ${componentCount} values per time, got ${values.length} values for ${times.length} times.`);
+    }
 
-  let byteOffset = 0;
-  
-  // Positions (view 0)
-  combinedBufferView.set(new Uint8Array(allPositions.buffer), byteOffset);
-  bufferViews.push({ buffer: 0, byteOffset, byteLength: posBufferByteLength, target: 34962 });
-  byteOffset += posBufferByteLength;
-  
-  // Normals (view 1)
-  combinedBufferView.set(new Uint8Array(allNormals.buffer), byteOffset);
-  bufferViews.push({ buffer: 0, byteOffset, byteLength: normBufferByteLength, target: 34962 });
-  byteOffset += normBufferByteLength;
-
-  // Colors (view 2 - optional)
-  if (colorBufferByteLength > 0) {
-    combinedBufferView.set(new Uint8Array(allColors.buffer), byteOffset);
-    bufferViews.push({ buffer: 0, byteOffset, byteLength: colorBufferByteLength, target: 34962 });
-    byteOffset += colorBufferByteLength;
-  }
+    const timesKey = times.join(',');
+    let inputAccessorIdx = timeAccessorMap.get(timesKey);
+    if (inputAccessorIdx === undefined) {
+      inputAccessorIdx = accessors.length;
+      accessors.push({
+        bufferView: addBufferView(new Float32Array(times)),
+        componentType: 5126,
+        count: times.length,
+        type: 'SCALAR',
+        min: [Math.min(...times)],
+        max: [Math.max(...times)]
+      });
+      timeAccessorMap.set(timesKey, inputAccessorIdx);
+    }
+
+    const outputAccessorIdx = accessors.length;
+    accessors.push({ bufferView: addBufferView(new Float32Array(values)), componentType: 5126, count: times.length, type });
 
-  // UVs (view 3 - optional)
-  let uvBufferViewIdx = -1;
-  if (uvBufferByteLength > 0) {
-    uvBufferViewIdx = bufferViews.length;
-    combinedBufferView.set(new Uint8Array(allUVs.buffer), byteOffset);
-    bufferViews.push({ buffer: 0, byteOffset, byteLength: uvBufferByteLength, target: 34962 });
-    byteOffset += uvBufferByteLength;
+    const name = animationName || DEFAULT_ANIMATION_NAME;
+    let animation = animationMap.get(name);
+    if (!animation) {
+      animation = { name, channels: [], samplers: [] };
+      animationMap.set(name, animation);
+    }
+    animation.samplers.push({ input: inputAccessorIdx, output: outputAccessorIdx, interpolation: keyframes.interpolation || 'LINEAR' });
+    animation.channels.push({ sampler: animation.samplers.length - 1, target });
+  };
+
+  const addShapeAnimations = (shape: Shape, nodeIndex: number) => {
+    for (const animation of shape.animations || []) {
+      if (animation.translation) addAnimationChannel(animation.name, animation.translation, 'VEC3', { node: nodeIndex, path: 'translation' });
+      if (animation.rotation) addAnimationChannel(animation.name, animation.rotation, 'VEC4', { node: nodeIndex, path: 'rotation' });
+      if (animation.scale) addAnimationChannel(animation.name, animation.scale, 'VEC3', { node: nodeIndex, path: 'scale' });
+    }
+  };
+
+  // Texture offsets are not node properties, so they are targeted through KHR_animation_pointer
+  const addTextureOffsetAnimation = (animation: TextureOffsetAnimation, materialIndex: number, matDef: any) => {
+    const textureInfoPaths = [
+      ['pbrMetallicRoughness/baseColorTexture', matDef.pbrMetallicRoughness.baseColorTexture],
+      ['pbrMetallicRoughness/metallicRoughnessTexture', matDef.pbrMetallicRoughness.metallicRoughnessTexture],
+      ['normalTexture', matDef.normalTexture],
+      ['occlusionTexture', matDef.occlusionTexture],
+      ['emissiveTexture', matDef.emissiveTexture],
+    ];
+    for (const [path, info] of textureInfoPaths) {
+      if (!info) continue;
+      const pointer = `/materials/${materialIndex}/${path}/extensions/KHR_texture_transform/offset`;
+      addAnimationChannel(animation.name, animation.offset, 'VEC2', { path: 'pointer', extensions: { KHR_animation_pointer: { pointer } } });
+      extensionsUsed.add('KHR_animation_pointer');
+    }
+  };
+
+  // --- 3. Materials ---
+  // Images are identified by content, so the same picture referenced through
+  // different URIs is only stored once. The MIME type comes from the image bytes
+  // rather than the data URI header, which is not always accurate.
+  const getImageIndex = (uri: string): number => {
+      const cached = imageUriMap.get(uri);
+      if (cached !== undefined) return cached;
+
+      let imageIdx: number | undefined;
+      const decoded = decodeDataUri(uri);
+      if (!decoded) {
+          // External reference or undecodable data, leave it for the viewer to resolve
+          imageIdx = images.length;
+          images.push({ uri });
+      } else {
+          const hash = hashBytes(decoded.bytes);
+          const candidates = imageHashMap.get(hash) || [];
+          imageIdx = candidates.find(c => bytesEqual(c.bytes, decoded.bytes))?.index;
+          if (imageIdx === undefined) {
+              imageIdx = images.length;
+              const mimeType = detectImageMimeType(decoded.bytes) ?? decoded.mimeType ?? 'image/png';
+              if (imageStorage === 'bufferView') {
+                  images.push({ bufferView: addBufferView(decoded.bytes), mimeType });
+              } else if (imageStorage === 'file') {
+                  const fileName = `textures/image_${imageIdx}.${IMAGE_FILE_EXTENSIONS[mimeType] ?? 'bin'}`;
+                  imageFiles.push({ name: fileName, data: decoded.bytes });
+                  images.push({ uri: fileName, mimeType });
+              } else {
+                  images.push({ uri, mimeType });
+              }
+              imageHashMap.set(hash, [...candidates, { bytes: decoded.bytes, index: imageIdx }]);
+          }
+      }
+      imageUriMap.set(uri, imageIdx);
+      return imageIdx;
+  };
+
+  const getSamplerIndex = (sampler: TextureSampler = DEFAULT_SAMPLER): number => {
+      const def = { ...DEFAULT_SAMPLER, ...sampler };
+      const key = JSON.stringify([def.magFilter, def.minFilter, def.wrapS, def.wrapT]);
+      if (!samplerMap.has(key)) {
+          samplerMap.set(key, samplers.length);
+          samplers.push(def);
+      }
+      return samplerMap.get(key)!;
+  };
+
+  const getTextureIndex = (uri: string, sampler?: TextureSampler): number => {
+      const imageIdx = getImageIndex(uri);
+      const samplerIdx = getSamplerIndex(sampler);
+      const key = `${imageIdx}:${samplerIdx}`;
+      if (!textureMap.has(key)) {
+          textureMap.set(key, textures.length);
+          textures.push({ sampler: samplerIdx, source: imageIdx });
+      }
+      return textureMap.get(key)!;
+  };
+
+  // Per-texture settings take precedence over the material-wide transform
+  const getTextureInfo = (uri: string, materialTransform?: TextureTransform, settings: TextureSettings = {}): any => {
+      const info: any = { index: getTextureIndex(uri, settings.sampler) };
+      if (settings.texCoord) info.texCoord = settings.texCoord;
+      const transform = settings.transform ?? materialTransform;
+      if (transform) {
+          const ext: any = {};
+          if (transform.offset) ext.offset = transform.offset;
+          if (transform.rotation) ext.rotation = transform.rotation;
+          if (transform.scale) ext.scale = transform.scale;
+          info.extensions = { KHR_texture_transform: ext };
+          extensionsUsed.add('KHR_texture_transform');
+      }
+      return info;
+  };
+
+  // Explicit material properties always win. Anything the material leaves unset falls
+  // back to the defaults inferred from the legacy texture/normal map/color inputs.
+  const getMaterialIndex = (material: Material = {}, tex?: string, normalTex?: string, color?: [number, number, number, number]): number => {
+      const baseColorTexture = material.baseColorTexture ?? tex;
+      const normalTexture = material.normalTexture ?? normalTex;
+      const baseColorFactor = material.baseColorFactor ?? color ?? [1.0, 1.0, 1.0, 1.0];
+
+      let defaultAlphaMode: AlphaMode = 'OPAQUE';
+      let defaultRoughness = 0.8;
+      if (baseColorTexture) {
+          defaultAlphaMode = 'MASK'; // Default for textured objects like leaves
+      } else if (baseColorFactor[3] < 1.0) {
+          defaultAlphaMode = 'BLEND';
+      }
+      if (normalTexture) {
+          // Makes surface shiny if it has a normal map (like water)
+          defaultRoughness = 0.3;
+          defaultAlphaMode = 'OPAQUE'; // Enforce opaque for water unless it has alpha
+      }
+
+      const matDef: any = {
+          name: material.name,
+          doubleSided: material.doubleSided ?? true,
+          pbrMetallicRoughness: {
+              baseColorFactor,
+              metallicFactor: material.metallicFactor ?? 0.0,
+              roughnessFactor: material.roughnessFactor ?? defaultRoughness
+          },
+          alphaMode: material.alphaMode ?? defaultAlphaMode
+      };
+      if (matDef.alphaMode === 'MASK') {
+          matDef.alphaCutoff = material.alphaCutoff ?? 0.5;
+      }
+
+      // Textures. An animated offset needs KHR_texture_transform present to target.
+      const transform = material.textureTransform ?? (material.textureAnimation ? {} : undefined);
+      const settings = material.textureSettings || {};
+      if (baseColorTexture) {
+          matDef.pbrMetallicRoughness.baseColorTexture = getTextureInfo(baseColorTexture, transform, settings.baseColorTexture);
+      }
+      if (material.metallicRoughnessTexture) {
+          matDef.pbrMetallicRoughness.metallicRoughnessTexture = getTextureInfo(material.metallicRoughnessTexture, transform, settings.metallicRoughnessTexture);
+      }
+      if (normalTexture) {
+          matDef.normalTexture = { ...getTextureInfo(normalTexture, transform, settings.normalTexture), scale: material.normalScale ?? 1.0 };
+      }
+      if (material.occlusionTexture) {
+          matDef.occlusionTexture = { ...getTextureInfo(material.occlusionTexture, transform, settings.occlusionTexture), strength: material.occlusionStrength ?? 1.0 };
+      }
+      if (material.emissiveTexture) {
+          matDef.emissiveTexture = getTextureInfo(material.emissiveTexture, transform, settings.emissiveTexture);
+      }
+      const emissiveFactor = material.emissiveFactor ?? (material.emissiveTexture ? [1.0, 1.0, 1.0] : undefined);
+      if (emissiveFactor) {
+          matDef.emissiveFactor = emissiveFactor;
+      }
+
+      // Identical definitions share one material
+      const matKey = JSON.stringify(matDef) + (material.textureAnimation ? JSON.stringify(material.textureAnimation) : '');
+      if (!materialMap.has(matKey)) {
+          const mIdx = materials.length;
+          materials.push({ ...matDef, name: material.name ?? `Material_${mIdx}` });
+          materialMap.set(matKey, mIdx);
+          if (material.textureAnimation) {
+              addTextureOffsetAnimation(material.textureAnimation, mIdx, matDef);
+          }
+          return mIdx;
+      }
+      return materialMap.get(matKey)!;
+  };
+
+  // --- 4. Geometry data ---
+  // Geometry objects are frequently shared between shapes (e.g. the tree model placed
+  // for every tree feature), so their vertex and index data is only written once.
+  const geometryMap = new Map<Geometry, GeometryAccessors>();
+
+  const quantization = options.quantization && { ...DEFAULT_QUANTIZATION, ...options.quantization };
+  if (quantization) {
+    for (const [key, bits] of Object.entries(quantization)) {
+      // Signed 1-bit values have no steps, and nothing above 16 bits fits the short storage
+      if (!Number.isInteger(bits) || bits < 2 || bits > 16) {
+        throw new Error(`Quantization ${key} must be a whole number from 2 to 16, got ${bits}.`);
+      }
+    }
+    extensionsUsed.add('KHR_mesh_quantization');
   }
-  
-  // Indices (view 4 - last)
-  const indexBufferViewIdx = bufferViews.length;
-  combinedBufferView.set(new Uint8Array(allIndices.buffer), byteOffset);
-  bufferViews.push({ buffer: 0, byteOffset, byteLength: indexBufferByteLength, target: 34963 });
 
-  // --- 3. Create materials, accessors, and meshes for each shape ---
-  let pElementOffset = 0, nElementOffset = 0, cElementOffset = 0, uvElementOffset = 0, iElementOffset = 0;
-  
-  shapes.forEach((shape, shapeIndex) => {
-    const { positions, normals, indices, colors, uvs, primitives } = shape.geometry;
+  // The frame fits the geometry's bounding box into [-1, 1] on its longest axis
+  const quantizationFrames = new Map<Geometry, QuantizationFrame>();
+
+  const getQuantizationFrame = (geometry: Geometry): QuantizationFrame => {
+    let frame = quantizationFrames.get(geometry);
+    if (!frame) {
+      const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < geometry.positions.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], geometry.positions[i]);
+        max[i % 3] = Math.max(max[i % 3], geometry.positions[i]);
+      }
+      const offset: [number, number, number] = [0, 1, 2].map(c => (geometry.positions.length > 0 ? (min[c] + max[c]) / 2 : 0)) as [number, number, number];
+      const halfExtent = Math.max(...[0, 1, 2].map(c => (max[c] - min[c]) / 2));
+      frame = { offset, scale: halfExtent > 0 ? halfExtent : 1 };
+      quantizationFrames.set(geometry, frame);
+    }
+    return frame;
+  };
+
+  // Writes a normalized integer vertex attribute. Values are snapped to `bits` of precision,
+  // then scaled to the storage type's range. Elements are padded to a 4-byte stride, as
+  // glTF requires for vertex attributes. Bounds are in stored integer values.
+  const addQuantizedAccessor = (values: ArrayLike<number>, type: 'VEC2' | 'VEC3' | 'VEC4', bits: number, signed: boolean, withBounds = false): number => {
+    const components = type === 'VEC2' ? 2 : type === 'VEC3' ? 3 : 4;
+    const count = values.length / components;
+    const componentSize = bits <= 8 ? 1 : 2;
+    const componentType = signed ? (componentSize === 1 ? 5120 : 5122) : (componentSize === 1 ? 5121 : 5123);
+    const storageMax = signed ? (componentSize === 1 ? 127 : 32767) : (componentSize === 1 ? 255 : 65535);
+    const steps = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+    const stride = Math.ceil((components * componentSize) / 4) * 4;
+
+    const bytes = new Uint8Array(count * stride);
+    const view = new DataView(bytes.buffer);
+    const min = new Array(components).fill(Infinity);
+    const max = new Array(components).fill(-Infinity);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < components; c++) {
+        const value = Math.max(signed ? -1 : 0, Math.min(1, values[i * components + c]));
+        const stored = Math.round((Math.round(value * steps) / steps) * storageMax);
+        const offset = i * stride + c * componentSize;
+        if (componentSize === 1) {
+          if (signed) view.setInt8(offset, stored); else view.setUint8(offset, stored);
+        } else {
+          if (signed) view.setInt16(offset, stored, true); else view.setUint16(offset, stored, true);
+        }
+        min[c] = Math.min(min[c], stored);
+        max[c] = Math.max(max[c], stored);
+      }
+    }
+
+    const accessor: any = {
+      bufferView: addBufferView(bytes, 34962, stride !== components * componentSize ? stride : undefined),
+      componentType,
+      normalized: true,
+      count,
+      type,
+    };
+    if (withBounds) {
+      accessor.min = min;
+      accessor.max = max;
+    }
+    accessors.push(accessor);
+    return accessors.length - 1;
+  };
+
+  const getGeometryAccessors = (geometry: Geometry): GeometryAccessors => {
+    const cached = geometryMap.get(geometry);
+    if (cached) return cached;
+
+    const { positions, normals, indices, colors, uvs, uvs1, featureIds, primitives } = geometry;
 
     const numVertices = positions.length / 3;
     const isV4Colors = colors && (colors.length / numVertices === 4);
 
-    // Accessors
     let minX = Infinity, minY = Infinity, minZ = Infinity;
     let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
     for (let i = 0; i < positions.length; i += 3) {
@@ -126,182 +460,405 @@ function generateGltfParts(shapes: Shape[]): { gltf: any; combinedBuffer: ArrayB
       maxX = Math.max(maxX, x); maxY = Math.max(maxY, y); maxZ = Math.max(maxZ, z);
     }
     
-    // Position Accessor
-    const posAccessorIdx = accessors.length;
-    accessors.push({ bufferView: 0, byteOffset: pElementOffset * Float32Array.BYTES_PER_ELEMENT, componentType: 5126, count: positions.length / 3, type: 'VEC3', min: [minX, minY, minZ], max: [maxX, maxY, maxZ] });
-    
-    // Normal Accessor
-    const normAccessorIdx = accessors.length;
-    accessors.push({ bufferView: 1, byteOffset: nElementOffset * Float32Array.BYTES_PER_ELEMENT, componentType: 5126, count: normals.length / 3, type: 'VEC3' });
+    const attributes: { [key: string]: number } = {};
+
+    if (quantization) {
+      // Quantized positions are stored relative to the geometry's frame, which mesh nodes apply
+      const { offset, scale } = getQuantizationFrame(geometry);
+      const framed = new Float32Array(positions.length);
+      for (let i = 0; i < positions.length; i++) {
+        framed[i] = (positions[i] - offset[i % 3]) / scale;
+      }
+      attributes.POSITION = addQuantizedAccessor(framed, 'VEC3', quantization.positionBits, true, true);
+      attributes.NORMAL = addQuantizedAccessor(normals, 'VEC3', quantization.normalBits, true);
+    } else {
+      // Position Accessor
+      attributes.POSITION = accessors.length;
+      accessors.push({ bufferView: addBufferView(positions, 34962), componentType: 5126, count: numVertices, type: 'VEC3', min: [minX, minY, minZ], max: [maxX, maxY, maxZ] });
+
+      // Normal Accessor
+      attributes.NORMAL = accessors.length;
+      accessors.push({ bufferView: addBufferView(normals, 34962), componentType: 5126, count: normals.length / 3, type: 'VEC3' });
+    }
     
     // Color Accessor
-    let colorAccessorIdx = -1;
     if (colors && colors.length > 0) {
-      colorAccessorIdx = accessors.length;
-      accessors.push({ 
-          bufferView: 2, 
-          byteOffset: cElementOffset * Float32Array.BYTES_PER_ELEMENT, 
-          componentType: 5126, 
-          count: colors.length / (isV4Colors ? 4 : 3), 
-          type: isV4Colors ? 'VEC4' : 'VEC3' 
-      });
+      if (quantization) {
+        attributes.COLOR_0 = addQuantizedAccessor(colors, isV4Colors ? 'VEC4' : 'VEC3', quantization.colorBits, false);
+      } else {
+        attributes.COLOR_0 = accessors.length;
+        accessors.push({ 
+            bufferView: addBufferView(colors, 34962), 
+            componentType: 5126, 
+            count: colors.length / (isV4Colors ? 4 : 3), 
+            type: isV4Colors ? 'VEC4' : 'VEC3' 
+        });
+      }
     }
 
     // UV Accessor
-    let uvAccessorIdx = -1;
-    if (uvs && uvs.length > 0 && uvBufferViewIdx !== -1) {
-        uvAccessorIdx = accessors.length;
-        accessors.push({ bufferView: uvBufferViewIdx, byteOffset: uvElementOffset * Float32Array.BYTES_PER_ELEMENT, componentType: 5126, count: uvs.length / 2, type: 'VEC2' });
+    if (uvs && uvs.length > 0) {
+      if (quantization && uvs.every(uv => uv >= 0 && uv <= 1)) {
+        attributes.TEXCOORD_0 = addQuantizedAccessor(uvs, 'VEC2', quantization.uvBits, false);
+      } else {
+        attributes.TEXCOORD_0 = accessors.length;
+        accessors.push({ bufferView: addBufferView(uvs, 34962), componentType: 5126, count: uvs.length / 2, type: 'VEC2' });
+      }
+    }
+    if (uvs1 && uvs1.length > 0) {
+      if (quantization && uvs1.every(uv => uv >= 0 && uv <= 1)) {
+        attributes.TEXCOORD_1 = addQuantizedAccessor(uvs1, 'VEC2', quantization.uvBits, false);
+      } else {
+        attributes.TEXCOORD_1 = accessors.length;
+        accessors.push({ bufferView: addBufferView(uvs1, 34962), componentType: 5126, count: uvs1.length / 2, type: 'VEC2' });
+      }
     }
-    
-    // Helper to get/create material
-    const getMaterialIndex = (tex?: string, normalTex?: string, color?: [number, number, number, number]): number => {
-        let textureIndex = undefined;
-        let normalTextureIndex = undefined;
-
-        // Process Base Color Texture
-        if (tex) {
-            if (!textureMap.has(tex)) {
-                const imageIdx = images.length;
-                images.push({ uri: tex, mimeType: "image/png" });
-                const texIdx = textures.length;
-                textures.push({ sampler: 0, source: imageIdx });
-                textureMap.set(tex, texIdx);
-            }
-            textureIndex = textureMap.get(tex)!;
-        }
 
-        // Process Normal Texture
-        if (normalTex) {
-            if (!textureMap.has(normalTex)) {
-                const imageIdx = images.length;
-                images.push({ uri: normalTex, mimeType: "image/png" });
-                const texIdx = textures.length;
-                textures.push({ sampler: 0, source: imageIdx });
-                textureMap.set(normalTex, texIdx);
-            }
-            normalTextureIndex = textureMap.get(normalTex)!;
-        }
-        
-        // Check for existing material
-        const matKey = `TEX_${textureIndex}_NORM_${normalTextureIndex}_COL_${color ? color.join(',') : 'default'}`;
-
-        if (!materialMap.has(matKey)) {
-            const mIdx = materials.length;
-            const matDef: any = {
-                name: `Material_${mIdx}`,
-                doubleSided: true,
-                pbrMetallicRoughness: {
-                    baseColorFactor: color || [1.0, 1.0, 1.0, 1.0],
-                    metallicFactor: 0.0,
-                    roughnessFactor: 0.8
-                }
-            };
-
-            // Apply texture specific properties
-            if (textureIndex !== undefined) {
-                matDef.pbrMetallicRoughness.baseColorTexture = { index: textureIndex };
-                matDef.alphaMode = 'MASK'; // Default for textured objects like leaves
-                matDef.alphaCutoff = 0.5;
-            } else if (color && color.length === 4 && color[3] < 1.0) {
-                 matDef.alphaMode = 'BLEND';
-            } else {
-                 matDef.alphaMode = 'OPAQUE';
-            }
-
-            // Apply normal map
-            if (normalTextureIndex !== undefined) {
-                matDef.normalTexture = { index: normalTextureIndex, scale: 1.0 };
-                // Makes surface shiny if it has a normal map (like water)
-                matDef.pbrMetallicRoughness.roughnessFactor = 0.3; 
-                matDef.alphaMode = 'OPAQUE'; // Enforce opaque for water unless it has alpha
-            }
-
-            materials.push(matDef);
-            materialMap.set(matKey, mIdx);
-            return mIdx;
-        }
-        return materialMap.get(matKey)!;
-    };
+    // Feature ID Accessor: identifies the source shape of each vertex in a batched mesh
+    let featureCount: number | undefined;
+    if (featureIds && featureIds.length > 0) {
+      featureCount = new Set(featureIds).size;
+      attributes._FEATURE_ID_0 = accessors.length;
+      accessors.push({ bufferView: addBufferView(featureIds, 34962), componentType: 5126, count: featureIds.length, type: 'SCALAR' });
+    }
 
-    const meshPrimitives: any[] = [];
-    
-    if (primitives && primitives.length > 0) {
-        // Multi-primitive mesh
-        for (const prim of primitives) {
-            const matIndex = getMaterialIndex(prim.texture, prim.normalTexture, prim.color);
-            
-            // Create a specific index accessor for this primitive
-            const primIndicesAccessorIdx = accessors.length;
-            
-            // The byte offset is the global offset (iElementOffset) plus the primitive's offset
-            const byteOffset = (iElementOffset + prim.indicesOffset) * Uint16Array.BYTES_PER_ELEMENT;
-            
-            accessors.push({
-                bufferView: indexBufferViewIdx,
-                byteOffset: byteOffset,
-                componentType: 5123,
-                count: prim.indicesCount,
-                type: 'SCALAR'
-            });
-
-            const attributes: { [key: string]: number } = { POSITION: posAccessorIdx, NORMAL: normAccessorIdx };
-            if (colorAccessorIdx !== -1) attributes.COLOR_0 = colorAccessorIdx;
-            if (uvAccessorIdx !== -1) attributes.TEXCOORD_0 = uvAccessorIdx;
-
-            meshPrimitives.push({
-                attributes,
-                indices: primIndicesAccessorIdx,
-                mode: 4,
-                material: matIndex
-            });
-        }
-    } else {
-        // Single primitive mesh (legacy/simple)
-        // Fix: Use shape.color if available to tint the material/texture
-        const matIndex = getMaterialIndex(shape.geometry.texture, shape.geometry.normalTexture, shape.color);
-        
-        // Use the full index range for this shape
-        const indexAccessorIdx = accessors.length;
-        accessors.push({ 
-            bufferView: indexBufferViewIdx, 
-            byteOffset: iElementOffset * Uint16Array.BYTES_PER_ELEMENT, 
-            componentType: 5123, 
-            count: indices.length, 
-            type: 'SCALAR' 
-        });
+    // Index Accessors: one per primitive range, or the full range for simple geometry
+    const indexAccessors = primitives && primitives.length > 0
+      ? primitives.map(prim => addIndexAccessor(indices, prim.indicesOffset, prim.indicesCount))
+      : [addIndexAccessor(indices, 0, indices.length)];
 
-        const attributes: { [key: string]: number } = { POSITION: posAccessorIdx, NORMAL: normAccessorIdx };
-        if (colorAccessorIdx !== -1) attributes.COLOR_0 = colorAccessorIdx;
-        if (uvAccessorIdx !== -1) attributes.TEXCOORD_0 = uvAccessorIdx;
+    const entry: GeometryAccessors = { id: geometryMap.size, attributes, indexAccessors, featureCount };
+    geometryMap.set(geometry, entry);
+    return entry;
+  };
 
-        meshPrimitives.push({
+  // Tangents are written when the geometry brings its own, or generated when a
+  // normal-mapped material is applied to geometry with UVs.
+  const getTangentAccessor = (geometry: Geometry, entry: GeometryAccessors): number => {
+    if (entry.tangentAccessor === undefined) {
+      const tangents = geometry.tangents ?? generateTangents(geometry);
+      if (quantization) {
+        entry.tangentAccessor = addQuantizedAccessor(tangents, 'VEC4', quantization.normalBits, true);
+      } else {
+        entry.tangentAccessor = accessors.length;
+        accessors.push({ bufferView: addBufferView(tangents, 34962), componentType: 5126, count: tangents.length / 4, type: 'VEC4' });
+      }
+    }
+    return entry.tangentAccessor;
+  };
+
+  // --- 5. Meshes ---
+  // A mesh is the combination of geometry and the materials assigned to its primitives.
+  // Shapes resolving to the same combination reference a single mesh.
+  const meshMap = new Map<string, number>();
+
+  const getMeshIndex = (shape: MeshShape): number => {
+    const { geometry } = shape;
+    const geometryAccessors = getGeometryAccessors(geometry);
+    const { id, indexAccessors } = geometryAccessors;
+
+    // Shape.material overrides the geometry's own materials property by property
+    const materialIndices = geometry.primitives && geometry.primitives.length > 0
+      ? geometry.primitives.map(prim => getMaterialIndex(mergeMaterials(prim.material, shape.material), prim.texture, prim.normalTexture, prim.color))
+      // Single primitive mesh (legacy/simple): shape.color tints the material/texture
+      : [getMaterialIndex(mergeMaterials(geometry.material, shape.material), geometry.texture, geometry.normalTexture, shape.color)];
+
+    const meshKey = `${id}:${materialIndices.join(',')}`;
+    let meshIndex = meshMap.get(meshKey);
+    if (meshIndex === undefined) {
+      let attributes = geometryAccessors.attributes;
+      const hasNormalMap = materialIndices.some(i => materials[i].normalTexture);
+      if (geometry.tangents || (hasNormalMap && attributes.TEXCOORD_0 !== undefined)) {
+        attributes = { ...attributes, TANGENT: getTangentAccessor(geometry, geometryAccessors) };
+      }
+
+      // Batched geometry declares its feature IDs the way EXT_mesh_features does
+      const { featureCount } = geometryAccessors;
+      if (featureCount !== undefined) extensionsUsed.add('EXT_mesh_features');
+
+      meshIndex = meshes.length;
+      const mesh: any = {
+        primitives: indexAccessors.map((indexAccessorIdx, i) => {
+          const primitive: any = {
             attributes,
             indices: indexAccessorIdx,
-            mode: 4,
-            material: matIndex
-        });
+            mode: geometry.primitives?.[i]?.mode ?? 4,
+            material: materialIndices[i]
+          };
+          if (featureCount !== undefined) {
+            primitive.extensions = { EXT_mesh_features: { featureIds: [{ featureCount, attribute: 0 }] } };
+          }
+          return primitive;
+        })
+      };
+      if (quantization) mesh.extras = { quantizationFrame: getQuantizationFrame(geometry) };
+      meshes.push(mesh);
+      meshMap.set(meshKey, meshIndex);
     }
+    return meshIndex;
+  };
 
-    meshes.push({ primitives: meshPrimitives });
-    
-    const node: any = { mesh: shapeIndex, translation: shape.translation };
+  // Simplified geometries per source geometry with their MSFT_screencoverage values.
+  // Levels that barely reduce the previous one are dropped, and the previous level
+  // stays visible down to the dropped level's coverage instead.
+  const lodMap = new Map<Geometry, { geometries: Geometry[]; coverage: number[] } | null>();
+
+  const getLodLevels = (geometry: Geometry, lod: LodOptions) => {
+    if (lodMap.has(geometry)) return lodMap.get(geometry)!;
+    const geometries: Geometry[] = [];
+    const coverage = [lod.screenCoverage[0]];
+    let previousCount = geometry.indices.length;
+    lod.ratios.forEach((ratio, i) => {
+      const simplified = simplifyGeometry(geometry, { ratio });
+      if (simplified.indices.length > 0 && simplified.indices.length < previousCount * 0.9) {
+        // Levels keep a subset of the original vertices, so they share its quantization frame
+        if (quantization) quantizationFrames.set(simplified, getQuantizationFrame(geometry));
+        geometries.push(simplified);
+        coverage.push(lod.screenCoverage[i + 1]);
+        previousCount = simplified.indices.length;
+      } else {
+        coverage[coverage.length - 1] = lod.screenCoverage[i + 1];
+      }
+    });
+    const levels = geometries.length > 0 ? { geometries, coverage } : null;
+    lodMap.set(geometry, levels);
+    return levels;
+  };
+
+  // Adds MSFT_lod to a mesh node. Each level is a copy of the node with a simplified mesh,
+  // kept out of the scenes; the viewer swaps it in based on screen coverage.
+  const addLodNodes = (node: any, shape: MeshShape): number[] => {
+    const levels = options.lod && getLodLevels(shape.geometry, options.lod);
+    if (!levels) return [];
+
+    const ids = levels.geometries.map((geometry, i) => {
+      const lodNode: any = { mesh: getMeshIndex({ ...shape, geometry }) };
+      if (node.name) lodNode.name = `${node.name} LOD${i + 1}`;
+      if (node.translation) lodNode.translation = node.translation;
+      if (node.rotation) lodNode.rotation = node.rotation;
+      if (node.scale) lodNode.scale = node.scale;
+      if (node.extensions?.EXT_mesh_gpu_instancing) {
+        lodNode.extensions = { EXT_mesh_gpu_instancing: node.extensions.EXT_mesh_gpu_instancing };
+      }
+      nodes.push(lodNode);
+      return nodes.length - 1;
+    });
+
+    node.extensions = { ...node.extensions, MSFT_lod: { ids } };
+    node.extras = { ...node.extras, MSFT_screencoverage: levels.coverage };
+    extensionsUsed.add('MSFT_lod');
+    return ids;
+  };
+
+  // --- 6. Nodes ---
+  // Shapes that can be drawn as GPU instances: geometry without children, animations, lights
+  // or cameras. Names and extras are kept per instance on the instancing node.
+  const isInstanceable = (shape: Shape): shape is MeshShape =>
+    !!shape.geometry && !shape.children?.length && !shape.animations?.length
+    && !shape.light && !shape.camera;
+
+  // Lights and cameras are cached so the fallback scene's nodes reuse them
+  const lights: any[] = [];
+  const cameras: any[] = [];
+  const lightMap = new Map<Light, number>();
+  const cameraMap = new Map<Camera, number>();
+
+  const getLightIndex = (light: Light): number => {
+    const cached = lightMap.get(light);
+    if (cached !== undefined) return cached;
+    const def: any = { type: light.type };
+    if (light.name) def.name = light.name;
+    if (light.color) def.color = light.color;
+    if (light.intensity !== undefined) def.intensity = light.intensity;
+    if (light.range !== undefined && light.type !== 'directional') def.range = light.range;
+    if (light.type === 'spot') {
+      def.spot = {};
+      if (light.innerConeAngle !== undefined) def.spot.innerConeAngle = light.innerConeAngle;
+      if (light.outerConeAngle !== undefined) def.spot.outerConeAngle = light.outerConeAngle;
+    }
+    lights.push(def);
+    lightMap.set(light, lights.length - 1);
+    extensionsUsed.add('KHR_lights_punctual');
+    return lights.length - 1;
+  };
+
+  const getCameraIndex = (camera: Camera): number => {
+    const cached = cameraMap.get(camera);
+    if (cached !== undefined) return cached;
+    const perspective: any = { yfov: camera.yfov, znear: camera.znear };
+    if (camera.zfar !== undefined) perspective.zfar = camera.zfar;
+    if (camera.aspectRatio !== undefined) perspective.aspectRatio = camera.aspectRatio;
+    const def: any = { type: 'perspective', perspective };
+    if (camera.name) def.name = camera.name;
+    cameras.push(def);
+    cameraMap.set(camera, cameras.length - 1);
+    return cameras.length - 1;
+  };
+
+  // Folds a quantization frame into a shape's transform: T * R * S * T(offset) * S(scale)
+  const applyQuantizationFrame = (shape: Shape, frame: QuantizationFrame): { translation: [number, number, number]; scale: [number, number, number] } => {
+    const [sx, sy, sz] = shape.scale || [1, 1, 1];
+    const [qx, qy, qz, qw] = shape.rotation || [0, 0, 0, 1];
+    const vx = frame.offset[0] * sx, vy = frame.offset[1] * sy, vz = frame.offset[2] * sz;
+    // v + 2w(q x v) + 2q x (q x v)
+    const cx = qy * vz - qz * vy, cy = qz * vx - qx * vz, cz = qx * vy - qy * vx;
+    const rx = vx + 2 * (qw * cx + qy * cz - qz * cy);
+    const ry = vy + 2 * (qw * cy + qz * cx - qx * cz);
+    const rz = vz + 2 * (qw * cz + qx * cy - qy * cx);
+    return {
+      translation: [shape.translation[0] + rx, shape.translation[1] + ry, shape.translation[2] + rz],
+      scale: [sx * frame.scale, sy * frame.scale, sz * frame.scale],
+    };
+  };
+
+  // A frame folded into the shape's own node would also move its children, be replaced
+  // by animation channels or scale its light and camera
+  const canFoldFrame = (shape: Shape): boolean =>
+    !shape.children?.length && !shape.animations?.length && !shape.light && !shape.camera;
+
+  const addShapeNode = (shape: Shape, instancing: boolean): number => {
+    const node: any = {};
+    if (shape.name) node.name = shape.name;
+    node.translation = shape.translation;
     if (shape.rotation) node.rotation = shape.rotation;
     if (shape.scale) node.scale = shape.scale;
+    if (shape.extras) node.extras = shape.extras;
+    if (shape.camera) node.camera = getCameraIndex(shape.camera);
+    if (shape.light) node.extensions = { KHR_lights_punctual: { light: getLightIndex(shape.light) } };
     nodes.push(node);
-    
-    // Update global element offsets
-    pElementOffset += positions.length;
-    nElementOffset += normals.length;
-    cElementOffset += colors ? colors.length : 0;
-    uvElementOffset += uvs ? uvs.length : 0;
-    iElementOffset += indices.length;
-  });
-
-  // --- 4. Assemble the final glTF object ---
-  const gltf = {
-    asset: { version: "2.0", generator: "React GLTF Scene Generator" },
-    scenes: [{ nodes: nodes.map((_, i) => i) }],
+    const nodeIndex = nodes.length - 1;
+    addShapeAnimations(shape, nodeIndex);
+
+    const children: number[] = [];
+    if (shape.geometry) {
+      const meshShape = shape as MeshShape;
+      const frame = quantization && getQuantizationFrame(meshShape.geometry);
+      if (frame && !canFoldFrame(shape)) {
+        // The mesh moves to a child node that applies the frame
+        const meshNode: any = { mesh: getMeshIndex(meshShape), translation: frame.offset, scale: [frame.scale, frame.scale, frame.scale] };
+        nodes.push(meshNode);
+        children.push(nodes.length - 1);
+        addLodNodes(meshNode, meshShape);
+      } else {
+        node.mesh = getMeshIndex(meshShape);
+        if (frame) Object.assign(node, applyQuantizationFrame(shape, frame));
+        // Level nodes replace this node while drawn, so they play its animations too
+        addLodNodes(node, meshShape).forEach(lodIndex => addShapeAnimations(shape, lodIndex));
+      }
+    }
+
+    if (shape.children && shape.children.length > 0) {
+      children.push(...addSiblingNodes(shape.children, instancing));
+    }
+    if (children.length > 0) node.children = children;
+    return nodeIndex;
+  };
+
+  // Writes a single node drawing every shape in the group via EXT_mesh_gpu_instancing.
+  // The per-shape transforms move into TRANSLATION/ROTATION/SCALE instance accessors, and
+  // their names and extras into the node's `extras.instances`, in instance order.
+  const addInstancedNode = (group: MeshShape[], meshIndex: number): number => {
+    const count = group.length;
+    const translations = new Float32Array(count * 3);
+    const rotations = new Float32Array(count * 4);
+    const scales = new Float32Array(count * 3);
+    let hasRotation = false, hasScale = false;
+    // Instance transforms apply before the node's, so the quantization frame is folded into each of them
+    const frame = quantization && getQuantizationFrame(group[0].geometry);
+
+    group.forEach((shape, i) => {
+      const framed = frame ? applyQuantizationFrame(shape, frame) : shape;
+      translations.set(framed.translation, i * 3);
+      rotations.set(shape.rotation || [0, 0, 0, 1], i * 4);
+      scales.set(framed.scale || [1, 1, 1], i * 3);
+      hasRotation = hasRotation || !!shape.rotation;
+      hasScale = hasScale || !!framed.scale;
+    });
+
+    const instanceAttributes: { [key: string]: number } = {};
+    instanceAttributes.TRANSLATION = accessors.length;
+    accessors.push({ bufferView: addBufferView(translations), componentType: 5126, count, type: 'VEC3' });
+    if (hasRotation) {
+      instanceAttributes.ROTATION = accessors.length;
+      accessors.push({ bufferView: addBufferView(rotations), componentType: 5126, count, type: 'VEC4' });
+    }
+    if (hasScale) {
+      instanceAttributes.SCALE = accessors.length;
+      accessors.push({ bufferView: addBufferView(scales), componentType: 5126, count, type: 'VEC3' });
+    }
+
+    extensionsUsed.add('EXT_mesh_gpu_instancing');
+    const node: any = {
+      mesh: meshIndex,
+      extensions: { EXT_mesh_gpu_instancing: { attributes: instanceAttributes } }
+    };
+    if (group.some(shape => shape.name || shape.extras)) {
+      node.extras = { instances: group.map(shape => ({ name: shape.name, extras: shape.extras })) };
+    }
+    nodes.push(node);
+    const nodeIndex = nodes.length - 1;
+    addLodNodes(node, group[0]);
+    return nodeIndex;
+  };
+
+  // Writes a list of sibling shapes and returns their node indices. With instancing,
+  // instanceable siblings sharing a mesh collapse into one node, placed where the
+  // first of them appears.
+  const addSiblingNodes = (siblings: Shape[], instancing: boolean): number[] => {
+    if (!instancing) {
+      return siblings.map(shape => addShapeNode(shape, false));
+    }
+
+    const entries: (Shape | MeshShape[])[] = [];
+    const groups = new Map<number, MeshShape[]>();
+    for (const shape of siblings) {
+      if (!isInstanceable(shape)) {
+        entries.push(shape);
+        continue;
+      }
+      const meshIndex = getMeshIndex(shape);
+      const group = groups.get(meshIndex);
+      if (group) {
+        group.push(shape);
+      } else {
+        const newGroup = [shape];
+        groups.set(meshIndex, newGroup);
+        entries.push(newGroup);
+      }
+    }
+
+    return entries.map(entry => {
+      if (!Array.isArray(entry)) return addShapeNode(entry, true);
+      if (entry.length === 1) return addShapeNode(entry[0], true);
+      return addInstancedNode(entry, getMeshIndex(entry[0]));
+    });
+  };
+
+  const scenes: any[] = [];
+  if (options.instancing) {
+    scenes.push({ name: 'Instanced', nodes: addSiblingNodes(shapes, true) });
+
+    // Viewers without the extension would only draw one instance per group,
+    // so optionally provide the plain node layout as an alternative scene.
+    if (options.instancingFallback) {
+      scenes.push({ name: 'Fallback', nodes: addSiblingNodes(shapes, false) });
+    }
+  } else {
+    scenes.push({ nodes: addSiblingNodes(shapes, false) });
+  }
+
+  const combinedBuffer = new ArrayBuffer(totalByteLength);
+  const combinedBufferView = new Uint8Array(combinedBuffer);
+  let byteOffset = 0;
+  for (const chunk of binaryChunks) {
+    combinedBufferView.set(chunk, byteOffset);
+    byteOffset += chunk.byteLength;
+  }
+
+  // --- 7. Assemble the final glTF object ---
+  const gltf: any = {
+    asset: { version: "2.0", generator: GENERATOR },
+    scenes,
     scene: 0,
     nodes,
     meshes,
@@ -315,15 +872,50 @@ function generateGltfParts(shapes: Shape[]): { gltf: any; combinedBuffer: ArrayB
       byteLength: totalByteLength,
     }],
   };
-  return { gltf, combinedBuffer };
+  // Empty arrays are not allowed
+  for (const key of ['nodes', 'meshes', 'accessors', 'bufferViews', 'materials', 'textures', 'images', 'samplers']) {
+    if (gltf[key].length === 0) delete gltf[key];
+  }
+  if (cameras.length > 0) {
+    gltf.cameras = cameras;
+  }
+  if (lights.length > 0) {
+    gltf.extensions = { KHR_lights_punctual: { lights } };
+  }
+  if (animationMap.size > 0) {
+    gltf.animations = Array.from(animationMap.values());
+  }
+  if (extensionsUsed.size > 0) {
+    gltf.extensionsUsed = Array.from(extensionsUsed);
+  }
+  if (quantization) {
+    // Integer positions and normals are not valid core glTF, so loaders must support the extension
+    gltf.extensionsRequired = ['KHR_mesh_quantization'];
+  }
+  return { gltf, combinedBuffer, imageFiles };
 }
 
-export function buildGltf(shapes: Shape[]): string {
-  const { gltf, combinedBuffer } = generateGltfParts(shapes);
+export function buildGltf(shapes: Shape[], options: GltfExportOptions = {}): string {
+  const { gltf, combinedBuffer } = generateGltfParts(shapes, options);
   gltf.buffers[0].uri = `data:application/octet-stream;base64,${arrayBufferToBase64(combinedBuffer)}`;
   return JSON.stringify(gltf, null, 2);
 }
 
+/**
+ * Builds a .gltf that references its binary data and textures as separate files.
+ * @param baseName - File name stem for the .gltf and .bin files.
+ * @returns The files with paths relative to the .gltf, ready to be packaged together.
+ */
+export function buildGltfFiles(shapes: Shape[], options: GltfExportOptions = {}, baseName = 'scene'): ZipEntry[] {
+  const { gltf, combinedBuffer, imageFiles } = generateGltfParts(shapes, options, 'file');
+  gltf.buffers[0].uri = `${baseName}.bin`;
+  return [
+    { name: `${baseName}.gltf`, data: new TextEncoder().encode(JSON.stringify(gltf, null, 2)) },
+    { name: `${baseName}.bin`, data: new Uint8Array(combinedBuffer) },
+    ...imageFiles,
+  ];
+}
+
 function padBuffer(buffer: Uint8Array, alignment: number, padWith: number): Uint8Array {
     const remainder = buffer.byteLength % alignment;
     if (remainder === 0) {
@@ -336,8 +928,8 @@ function padBuffer(buffer: Uint8Array, alignment: number, padWith: number): Uint
     return paddedBuffer;
 }
 
-export function buildGlb(shapes: Shape[]): ArrayBuffer {
-  const { gltf, combinedBuffer } = generateGltfParts(shapes);
+export function buildGlb(shapes: Shape[], options: GltfExportOptions = {}): ArrayBuffer {
+  const { gltf, combinedBuffer } = generateGltfParts(shapes, options, 'bufferView');
 
   // 1. JSON chunk
   const jsonString = JSON.stringify(gltf);
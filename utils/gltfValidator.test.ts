@@ -0,0 +1,85 @@
+
+import { describe, expect, it } from 'vitest';
+import { batchShapes } from './batching';
+import { createBobbing, createTurntable } from './animation';
+import { createCube, createPyramid, createSphere } from './geometry';
+import { buildGlb, buildGltf, buildGltfFiles, DEFAULT_LOD_OPTIONS, DEFAULT_QUANTIZATION, type GltfExportOptions, type Shape } from './gltfBuilder';
+import { validateGlb, validateGltf, type ValidationReport } from './gltfValidator';
+import { optimizeShapes } from './meshOptimizer';
+import { createTree } from './stockModels';
+
+// The scene the app opens with, plus a row of static trees sharing one mesh for instancing and batching
+function createScene(): Shape[] {
+  const tree = createTree();
+  return [
+    { geometry: createCube(1.5), translation: [-2.5, 0, 0], color: [1, 0.2, 0.2, 1], animations: [createTurntable()] },
+    { geometry: createPyramid(1.5, 1.5), translation: [0, 0, 0], color: [0.2, 1, 0.2, 1], animations: [createTurntable(undefined, { period: 12 })] },
+    { geometry: createSphere(0.8), translation: [2.5, 0, 0], color: [0.2, 0.2, 1, 1], animations: [createBobbing([2.5, 0, 0])] },
+    ...[0, 1, 2, 3].map((i): Shape => ({ geometry: tree, translation: [i * 2 - 3, 0, 4], name: `tree-${i}`, extras: { id: i } })),
+  ];
+}
+
+const errorsOf = (report: ValidationReport) => report.issues.filter(issue => issue.severity === 'error');
+
+const cases: { name: string; shapes: () => Shape[]; options: GltfExportOptions }[] = [
+  { name: 'default export', shapes: createScene, options: {} },
+  { name: 'GPU instancing', shapes: createScene, options: { instancing: true, instancingFallback: true } },
+  { name: 'levels of detail', shapes: createScene, options: { lod: DEFAULT_LOD_OPTIONS } },
+  { name: 'static batching', shapes: () => batchShapes(createScene()), options: {} },
+  { name: 'mesh optimization', shapes: () => optimizeShapes(createScene()).shapes, options: {} },
+  { name: 'quantization', shapes: createScene, options: { quantization: DEFAULT_QUANTIZATION } },
+  {
+    name: 'every option combined',
+    shapes: () => optimizeShapes(batchShapes(createScene())).shapes,
+    options: { instancing: true, instancingFallback: true, lod: DEFAULT_LOD_OPTIONS, quantization: DEFAULT_QUANTIZATION },
+  },
+];
+
+describe('validateGltf on exported scenes', () => {
+  for (const { name, shapes, options } of cases) {
+    describe(name, () => {
+      it('produces a valid .gltf', () => {
+        const report = validateGltf(JSON.parse(buildGltf(shapes(), options)));
+        expect(errorsOf(report)).toEqual([]);
+        expect(report.valid).toBe(true);
+      });
+
+      it('produces a valid .glb', () => {
+        const report = validateGlb(buildGlb(shapes(), options));
+        expect(errorsOf(report)).toEqual([]);
+        expect(report.valid).toBe(true);
+      });
+
+      it('produces a valid .gltf with a separate .bin', () => {
+        const files = buildGltfFiles(shapes(), options, 'scene');
+        const report = validateGltf(JSON.parse(new TextDecoder().decode(files[0].data)), [files[1].data]);
+        expect(errorsOf(report)).toEqual([]);
+        expect(report.valid).toBe(true);
+      });
+    });
+  }
+});
+
+describe('validateGltf scenes', () => {
+  const document = (scenes: any[], scene?: number) => ({
+    asset: { version: '2.0' },
+    nodes: [{}],
+    scenes,
+    scene,
+  });
+  const codesOf = (report: ValidationReport) => report.issues.map(issue => `${issue.severity} ${issue.code} ${issue.pointer}`);
+
+  it('accepts a default scene with root nodes', () => {
+    expect(codesOf(validateGltf(document([{ nodes: [0] }], 0)))).toEqual([]);
+  });
+
+  it('reports a scene whose nodes array is empty', () => {
+    expect(codesOf(validateGltf(document([{ nodes: [] }, { nodes: [0] }], 1)))).toEqual(['error EMPTY_ARRAY /scenes/0/nodes']);
+  });
+
+  it('reports a default scene without nodes', () => {
+    const report = validateGltf(document([{ nodes: [0] }, {}], 1));
+    expect(codesOf(report)).toEqual(['warning SCENE_EMPTY /scenes/1']);
+    expect(report.issues[0].message).toMatch(/Default scene 1 has no nodes/);
+  });
+});
@@ -0,0 +1,673 @@
+
+import { decodeDataUri } from './imageData';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  code: string;    // Stable identifier, e.g. ACCESSOR_MIN_MISMATCH
+  message: string;
+  pointer: string; // JSON pointer to the offending object, e.g. /meshes/0/primitives/1
+}
+
+export interface ValidationReport {
+  valid: boolean; // True when there are no errors
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  issues: ValidationIssue[];
+}
+
+const COMPONENT_SIZES: { [componentType: number]: number } = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+const TYPE_COMPONENTS: { [type: string]: number } = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+// Expected accessor types of the standard vertex attributes
+const ATTRIBUTE_TYPES: { [semantic: string]: string[] } = {
+  POSITION: ['VEC3'],
+  NORMAL: ['VEC3'],
+  TANGENT: ['VEC4'],
+  TEXCOORD: ['VEC2'],
+  COLOR: ['VEC3', 'VEC4'],
+  JOINTS: ['VEC4'],
+  WEIGHTS: ['VEC4'],
+};
+
+// Collections whose entries should be referenced from somewhere
+const TRACKED_COLLECTIONS = ['accessors', 'bufferViews', 'buffers', 'materials', 'meshes', 'nodes', 'textures', 'images', 'samplers', 'cameras'] as const;
+type Collection = typeof TRACKED_COLLECTIONS[number] | 'lights';
+
+const finishReport = (issues: ValidationIssue[]): ValidationReport => {
+  const count = (severity: IssueSeverity) => issues.filter(issue => issue.severity === severity).length;
+  const errorCount = count('error');
+  return { valid: errorCount === 0, errorCount, warningCount: count('warning'), infoCount: count('info'), issues };
+};
+
+/**
+ * Checks a glTF document against the glTF 2.0 specification: required fields, references,
+ * buffer and accessor bounds, alignment, accessor min/max, index ranges, non-finite
+ * values, animation data, empty scenes and unused objects.
+ * @param gltf - The parsed glTF JSON.
+ * @param buffers - Binary data per buffer index. Buffers without an entry are decoded from
+ *   their data URI; external files that are not supplied are skipped.
+ */
+export function validateGltf(gltf: any, buffers: (Uint8Array | undefined)[] = []): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const report = (severity: IssueSeverity, code: string, message: string, pointer: string) => {
+    issues.push({ severity, code, message, pointer });
+  };
+
+  if (typeof gltf !== 'object' || gltf === null || Array.isArray(gltf)) {
+    report('error', 'INVALID_JSON', 'The glTF root must be a JSON object', '');
+    return finishReport(issues);
+  }
+
+  const lights: any[] = gltf.extensions?.KHR_lights_punctual?.lights ?? [];
+  const collection = (name: string): any[] => (name === 'lights' ? lights : Array.isArray(gltf[name]) ? gltf[name] : []);
+  const used = new Map<Collection, Set<number>>();
+  for (const name of [...TRACKED_COLLECTIONS, 'lights' as const]) used.set(name, new Set());
+
+  // Resolves a reference, recording it as used. Reports and returns false if it doesn't exist.
+  const reference = (value: any, name: Collection, pointer: string): boolean => {
+    if (!Number.isInteger(value) || value < 0 || value >= collection(name).length) {
+      report('error', 'UNRESOLVED_REFERENCE', `${name} index ${JSON.stringify(value)} does not exist`, pointer);
+      return false;
+    }
+    used.get(name)!.add(value);
+    return true;
+  };
+
+  const requireField = (object: any, field: string, pointer: string): boolean => {
+    if (object[field] === undefined) {
+      report('error', 'MISSING_REQUIRED_FIELD', `Required property "${field}" is missing`, pointer);
+      return false;
+    }
+    return true;
+  };
+
+  // --- Asset and top-level structure ---
+  if (requireField(gltf, 'asset', '') && gltf.asset.version !== '2.0') {
+    report('error', 'UNSUPPORTED_VERSION', `Asset version ${JSON.stringify(gltf.asset.version)} is not 2.0`, '/asset/version');
+  }
+  for (const [key, value] of Object.entries(gltf)) {
+    if (Array.isArray(value) && value.length === 0) {
+      report('error', 'EMPTY_ARRAY', `Array "${key}" must be omitted when empty`, `/${key}`);
+    }
+  }
+
+  // --- Extensions ---
+  const declared = new Set<string>(gltf.extensionsUsed ?? []);
+  const found = new Set<string>();
+  const collectExtensions = (value: any) => {
+    if (typeof value !== 'object' || value === null) return;
+    if (ArrayBuffer.isView(value)) return;
+    if (!Array.isArray(value) && typeof value.extensions === 'object' && value.extensions !== null) {
+      Object.keys(value.extensions).forEach(name => found.add(name));
+    }
+    Object.values(value).forEach(collectExtensions);
+  };
+  collectExtensions(gltf);
+  found.forEach(name => {
+    if (!declared.has(name)) report('error', 'UNDECLARED_EXTENSION', `Extension ${name} is used but not listed in extensionsUsed`, '/extensionsUsed');
+  });
+  declared.forEach(name => {
+    // Some extensions are only detectable through their effect on core data
+    if (!found.has(name) && name !== 'KHR_mesh_quantization' && name !== 'KHR_materials_unlit') {
+      report('warning', 'UNUSED_EXTENSION', `Extension ${name} is declared but never used`, '/extensionsUsed');
+    }
+  });
+  for (const name of gltf.extensionsRequired ?? []) {
+    if (!declared.has(name)) report('error', 'REQUIRED_EXTENSION_NOT_USED', `Required extension ${name} is missing from extensionsUsed`, '/extensionsRequired');
+  }
+
+  // --- Buffers ---
+  const bufferData: (Uint8Array | null)[] = collection('buffers').map((buffer, i) => {
+    const pointer = `/buffers/${i}`;
+    if (!requireField(buffer, 'byteLength', pointer)) return null;
+    if (!(buffer.byteLength >= 1)) report('error', 'VALUE_OUT_OF_RANGE', 'Buffer byteLength must be at least 1', pointer);
+
+    let data: Uint8Array | null = buffers[i] ?? null;
+    if (!data && typeof buffer.uri === 'string') {
+      if (buffer.uri.startsWith('data:')) {
+        data = decodeDataUri(buffer.uri)?.bytes ?? null;
+        if (!data) report('error', 'INVALID_URI', 'Buffer data URI cannot be decoded', `${pointer}/uri`);
+      } else {
+        report('info', 'EXTERNAL_RESOURCE_NOT_CHECKED', `External buffer ${buffer.uri} was not supplied, its contents are not validated`, pointer);
+      }
+    } else if (!data && buffer.uri === undefined) {
+      report('error', 'MISSING_BUFFER_DATA', 'Buffer has no URI and no GLB binary chunk was supplied', pointer);
+    }
+
+    if (data && data.byteLength < buffer.byteLength) {
+      report('error', 'BUFFER_TOO_SHORT', `Buffer data is ${data.byteLength} bytes, but byteLength is ${buffer.byteLength}`, pointer);
+      return null;
+    }
+    if (data && data.byteLength > buffer.byteLength + 3) {
+      report('warning', 'BUFFER_LENGTH_MISMATCH', `Buffer data is ${data.byteLength} bytes, more than byteLength ${buffer.byteLength} plus padding`, pointer);
+    }
+    return data;
+  });
+
+  // --- Buffer views ---
+  collection('bufferViews').forEach((view, i) => {
+    const pointer = `/bufferViews/${i}`;
+    if (!requireField(view, 'buffer', pointer) || !requireField(view, 'byteLength', pointer)) return;
+    if (!reference(view.buffer, 'buffers', `${pointer}/buffer`)) return;
+    const offset = view.byteOffset ?? 0;
+    const buffer = collection('buffers')[view.buffer];
+    if (offset + view.byteLength > buffer.byteLength) {
+      report('error', 'BUFFER_VIEW_TOO_LONG', `Buffer view ends at byte ${offset + view.byteLength}, past the buffer's ${buffer.byteLength} bytes`, pointer);
+    }
+    if (view.byteStride !== undefined && (view.byteStride < 4 || view.byteStride > 252 || view.byteStride % 4 !== 0)) {
+      report('error', 'INVALID_BYTE_STRIDE', `byteStride ${view.byteStride} must be a multiple of 4 between 4 and 252`, `${pointer}/byteStride`);
+    }
+    if (view.target !== undefined && view.target !== 34962 && view.target !== 34963) {
+      report('error', 'VALUE_NOT_IN_LIST', `Invalid buffer view target ${view.target}`, `${pointer}/target`);
+    }
+  });
+
+  // --- Accessors ---
+  // Raw component values of every accessor whose data is available, read on demand
+  const accessorValues = new Map<number, Float64Array | null>();
+  const accessorLayouts: ({ offset: number; stride: number } | null)[] = [];
+
+  const readAccessor = (index: number): Float64Array | null => {
+    if (accessorValues.has(index)) return accessorValues.get(index)!;
+    const accessor = collection('accessors')[index];
+    const layout = accessorLayouts[index];
+    let values: Float64Array | null = null;
+    if (accessor && layout !== null && layout !== undefined) {
+      const components = TYPE_COMPONENTS[accessor.type];
+      values = new Float64Array(accessor.count * components);
+      if (accessor.bufferView !== undefined) {
+        const view = collection('bufferViews')[accessor.bufferView];
+        const data = bufferData[view.buffer];
+        if (!data) {
+          values = null;
+        } else {
+          const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+          const size = COMPONENT_SIZES[accessor.componentType];
+          for (let e = 0; e < accessor.count; e++) {
+            for (let c = 0; c < components; c++) {
+              const at = layout.offset + e * layout.stride + c * size;
+              values[e * components + c] = readComponent(dataView, at, accessor.componentType);
+            }
+          }
+        }
+      }
+    }
+    accessorValues.set(index, values);
+    return values;
+  };
+
+  collection('accessors').forEach((accessor, i) => {
+    const pointer = `/accessors/${i}`;
+    accessorLayouts[i] = null;
+    if (!requireField(accessor, 'componentType', pointer) || !requireField(accessor, 'count', pointer) || !requireField(accessor, 'type', pointer)) return;
+    const size = COMPONENT_SIZES[accessor.componentType];
+    const components = TYPE_COMPONENTS[accessor.type];
+    if (!size) {
+      report('error', 'VALUE_NOT_IN_LIST', `Invalid componentType ${accessor.componentType}`, `${pointer}/componentType`);
+      return;
+    }
+    if (!components) {
+      report('error', 'VALUE_NOT_IN_LIST', `Invalid type ${JSON.stringify(accessor.type)}`, `${pointer}/type`);
+      return;
+    }
+    if (!(Number.isInteger(accessor.count) && accessor.count >= 1)) {
+      report('error', 'VALUE_OUT_OF_RANGE', 'Accessor count must be a positive integer', `${pointer}/count`);
+      return;
+    }
+    if (accessor.normalized && (accessor.componentType === 5126 || accessor.componentType === 5125)) {
+      report('error', 'INVALID_NORMALIZED', 'Only byte and short accessors can be normalized', `${pointer}/normalized`);
+    }
+    for (const bound of ['min', 'max']) {
+      if (accessor[bound] !== undefined && (!Array.isArray(accessor[bound]) || accessor[bound].length !== components)) {
+        report('error', 'INVALID_BOUNDS', `${bound} must have ${components} components`, `${pointer}/${bound}`);
+      }
+    }
+    if (accessor.sparse) {
+      report('info', 'SPARSE_NOT_CHECKED', 'Sparse accessor data is not validated', `${pointer}/sparse`);
+    }
+
+    const byteOffset = accessor.byteOffset ?? 0;
+    const elementSize = size * components;
+    if (accessor.bufferView === undefined) {
+      if (byteOffset !== 0) report('error', 'INVALID_BYTE_OFFSET', 'byteOffset requires a bufferView', pointer);
+      accessorLayouts[i] = { offset: 0, stride: elementSize };
+      return;
+    }
+    if (!reference(accessor.bufferView, 'bufferViews', `${pointer}/bufferView`)) return;
+    const view = collection('bufferViews')[accessor.bufferView];
+    const stride = view.byteStride ?? elementSize;
+    const viewOffset = view.byteOffset ?? 0;
+
+    if (byteOffset % size !== 0 || (viewOffset + byteOffset) % size !== 0) {
+      report('error', 'ACCESSOR_ALIGNMENT', `Accessor data is not aligned to its ${size}-byte component size`, pointer);
+      return;
+    }
+    if (stride < elementSize) {
+      report('error', 'ACCESSOR_STRIDE_TOO_SMALL', `byteStride ${stride} is smaller than the ${elementSize}-byte element`, pointer);
+      return;
+    }
+    const end = byteOffset + stride * (accessor.count - 1) + elementSize;
+    if (end > view.byteLength) {
+      report('error', 'ACCESSOR_TOO_LONG', `Accessor needs ${end} bytes, but its buffer view has ${view.byteLength}`, pointer);
+      return;
+    }
+    const buffer = collection('buffers')[view.buffer];
+    if (!buffer || viewOffset + view.byteLength > buffer.byteLength) return;
+    accessorLayouts[i] = { offset: viewOffset + byteOffset, stride };
+
+    const values = readAccessor(i);
+    if (!values) return;
+    if (accessor.componentType === 5126 && values.some(v => !Number.isFinite(v))) {
+      report('error', 'ACCESSOR_INVALID_FLOAT', 'Accessor contains NaN or infinite values', pointer);
+      return;
+    }
+    // Bounds are compared in the stored component type, also for normalized accessors
+    const actualMin = new Array(components).fill(Infinity);
+    const actualMax = new Array(components).fill(-Infinity);
+    for (let v = 0; v < values.length; v++) {
+      const c = v % components;
+      actualMin[c] = Math.min(actualMin[c], values[v]);
+      actualMax[c] = Math.max(actualMax[c], values[v]);
+    }
+    const matches = (declaredValue: number, actual: number) =>
+      accessor.componentType === 5126 ? Math.abs(Math.fround(declaredValue) - actual) <= 1e-6 * Math.max(1, Math.abs(actual)) : declaredValue === actual;
+    if (Array.isArray(accessor.min) && accessor.min.length === components && accessor.min.some((m: number, c: number) => !matches(m, actualMin[c]))) {
+      report('error', 'ACCESSOR_MIN_MISMATCH', `Declared min ${JSON.stringify(accessor.min)} does not match the data (${JSON.stringify(actualMin)})`, `${pointer}/min`);
+    }
+    if (Array.isArray(accessor.max) && accessor.max.length === components && accessor.max.some((m: number, c: number) => !matches(m, actualMax[c]))) {
+      report('error', 'ACCESSOR_MAX_MISMATCH', `Declared max ${JSON.stringify(accessor.max)} does not match the data (${JSON.stringify(actualMax)})`, `${pointer}/max`);
+    }
+  });
+
+  // Accessor values converted to floats, applying normalization
+  const readNormalized = (index: number): Float64Array | null => {
+    const values = readAccessor(index);
+    const accessor = collection('accessors')[index];
+    if (!values || !accessor.normalized) return values;
+    const divisor = { 5120: 127, 5121: 255, 5122: 32767, 5123: 65535 }[accessor.componentType as 5120 | 5121 | 5122 | 5123];
+    return values.map(v => Math.max(v / divisor, -1));
+  };
+
+  const accessorCount = (index: number): number | undefined => collection('accessors')[index]?.count;
+
+  // --- Meshes ---
+  collection('meshes').forEach((mesh, m) => {
+    const meshPointer = `/meshes/${m}`;
+    if (!requireField(mesh, 'primitives', meshPointer)) return;
+    if (!Array.isArray(mesh.primitives) || mesh.primitives.length === 0) {
+      report('error', 'EMPTY_ARRAY', 'A mesh needs at least one primitive', `${meshPointer}/primitives`);
+      return;
+    }
+    mesh.primitives.forEach((primitive: any, p: number) => {
+      const pointer = `${meshPointer}/primitives/${p}`;
+      if (!requireField(primitive, 'attributes', pointer)) return;
+      const mode = primitive.mode ?? 4;
+      if (!(Number.isInteger(mode) && mode >= 0 && mode <= 6)) {
+        report('error', 'VALUE_NOT_IN_LIST', `Invalid primitive mode ${mode}`, `${pointer}/mode`);
+      }
+      if (primitive.material !== undefined) reference(primitive.material, 'materials', `${pointer}/material`);
+
+      let vertexCount: number | undefined;
+      if (primitive.attributes.POSITION === undefined) {
+        report('warning', 'MESH_PRIMITIVE_NO_POSITION', 'Primitive has no POSITION attribute', `${pointer}/attributes`);
+      }
+      for (const [semantic, index] of Object.entries(primitive.attributes) as [string, number][]) {
+        const attributePointer = `${pointer}/attributes/${semantic}`;
+        if (!reference(index, 'accessors', attributePointer)) continue;
+        const accessor = collection('accessors')[index];
+        const baseSemantic = semantic.replace(/_\d+$/, '');
+        const allowedTypes = ATTRIBUTE_TYPES[baseSemantic];
+        if (allowedTypes && !allowedTypes.includes(accessor.type)) {
+          report('error', 'MESH_PRIMITIVE_ATTRIBUTE_TYPE', `${semantic} must be ${allowedTypes.join(' or ')}, not ${accessor.type}`, attributePointer);
+        }
+        if (vertexCount === undefined) vertexCount = accessor.count;
+        else if (accessor.count !== vertexCount) {
+          report('error', 'MESH_PRIMITIVE_UNEQUAL_ACCESSOR_COUNT', `${semantic} has ${accessor.count} elements, other attributes have ${vertexCount}`, attributePointer);
+        }
+
+        const layout = accessorLayouts[index];
+        if (layout && (layout.offset % 4 !== 0 || layout.stride % 4 !== 0)) {
+          report('error', 'VERTEX_ATTRIBUTE_ALIGNMENT', `${semantic} elements must start on 4-byte boundaries`, attributePointer);
+        }
+        if (semantic === 'POSITION' && (accessor.min === undefined || accessor.max === undefined)) {
+          report('error', 'MESH_PRIMITIVE_POSITION_BOUNDS', 'POSITION accessors must define min and max', attributePointer);
+        }
+        if (semantic === 'NORMAL' || semantic === 'TANGENT') {
+          checkUnitVectors(readNormalized(index), TYPE_COMPONENTS[accessor.type], semantic, attributePointer, accessor.normalized);
+        }
+      }
+
+      if (primitive.indices !== undefined && reference(primitive.indices, 'accessors', `${pointer}/indices`)) {
+        const accessor = collection('accessors')[primitive.indices];
+        const indicesPointer = `${pointer}/indices`;
+        if (accessor.type !== 'SCALAR' || ![5121, 5123, 5125].includes(accessor.componentType)) {
+          report('error', 'MESH_PRIMITIVE_INDICES_TYPE', 'Indices must be unsigned byte, short or int scalars', indicesPointer);
+        } else {
+          const view = collection('bufferViews')[accessor.bufferView];
+          if (view?.byteStride !== undefined) {
+            report('error', 'MESH_PRIMITIVE_INDICES_STRIDE', 'Index buffer views must not define byteStride', indicesPointer);
+          }
+          if (mode === 4 && accessor.count % 3 !== 0) {
+            report('error', 'MESH_PRIMITIVE_INCOMPLETE_TRIANGLES', `Triangle list has ${accessor.count} indices, not a multiple of 3`, indicesPointer);
+          }
+          const values = readAccessor(primitive.indices);
+          if (values && vertexCount !== undefined) {
+            const restart = { 5121: 255, 5123: 65535, 5125: 4294967295 }[accessor.componentType as 5121 | 5123 | 5125];
+            let outOfRange = 0, restarts = 0;
+            for (const v of values) {
+              if (v === restart) restarts++;
+              else if (v >= vertexCount) outOfRange++;
+            }
+            if (outOfRange > 0) {
+              report('error', 'ACCESSOR_INDEX_OOB', `${outOfRange} indices reference vertices past the ${vertexCount} available`, indicesPointer);
+            }
+            if (restarts > 0) {
+              report('error', 'ACCESSOR_INDEX_PRIMITIVE_RESTART', `${restarts} indices use the primitive restart value ${restart}`, indicesPointer);
+            }
+          }
+        }
+      } else if (primitive.indices === undefined && vertexCount !== undefined && mode === 4 && vertexCount % 3 !== 0) {
+        report('error', 'MESH_PRIMITIVE_INCOMPLETE_TRIANGLES', `Triangle list has ${vertexCount} vertices, not a multiple of 3`, pointer);
+      }
+    });
+  });
+
+  function checkUnitVectors(values: Float64Array | null, components: number, semantic: string, pointer: string, quantized: boolean) {
+    if (!values) return;
+    // Normalized integers can't hit unit length exactly
+    const tolerance = quantized ? 0.05 : 0.01;
+    let notUnit = 0, badSign = 0;
+    for (let i = 0; i + components <= values.length; i += components) {
+      const length = Math.hypot(values[i], values[i + 1], values[i + 2]);
+      if (Math.abs(length - 1) > tolerance) notUnit++;
+      if (components === 4 && Math.abs(values[i + 3]) !== 1) badSign++;
+    }
+    if (notUnit > 0) report('warning', 'ACCESSOR_NON_UNIT', `${notUnit} ${semantic} vectors are not unit length`, pointer);
+    if (badSign > 0) report('error', 'ACCESSOR_INVALID_SIGN', `${badSign} ${semantic} w components are not 1 or -1`, pointer);
+  }
+
+  // --- Nodes ---
+  const parents = new Map<number, number>();
+  collection('nodes').forEach((node, n) => {
+    const pointer = `/nodes/${n}`;
+    if (node.mesh !== undefined) reference(node.mesh, 'meshes', `${pointer}/mesh`);
+    if (node.camera !== undefined) reference(node.camera, 'cameras', `${pointer}/camera`);
+    if (node.matrix !== undefined && (node.translation || node.rotation || node.scale)) {
+      report('error', 'NODE_MATRIX_TRS', 'A node cannot have both a matrix and TRS properties', pointer);
+    }
+    for (const [field, length] of [['translation', 3], ['rotation', 4], ['scale', 3], ['matrix', 16]] as [string, number][]) {
+      const value = node[field];
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || value.length !== length || value.some((v: any) => !Number.isFinite(v))) {
+        report('error', 'INVALID_TRANSFORM', `${field} must be ${length} finite numbers`, `${pointer}/${field}`);
+      }
+    }
+    if (Array.isArray(node.rotation) && Math.abs(Math.hypot(...node.rotation) - 1) > 0.001) {
+      report('error', 'NODE_ROTATION_NON_UNIT', 'Rotation quaternion is not unit length', `${pointer}/rotation`);
+    }
+    (node.children ?? []).forEach((child: number, c: number) => {
+      if (!reference(child, 'nodes', `${pointer}/children/${c}`)) return;
+      if (parents.has(child)) {
+        report('error', 'NODE_MULTIPLE_PARENTS', `Node ${child} has more than one parent`, `${pointer}/children/${c}`);
+      }
+      parents.set(child, n);
+    });
+
+    const extensions = node.extensions ?? {};
+    if (extensions.KHR_lights_punctual) {
+      reference(extensions.KHR_lights_punctual.light, 'lights', `${pointer}/extensions/KHR_lights_punctual/light`);
+    }
+    if (extensions.MSFT_lod) {
+      const ids: number[] = extensions.MSFT_lod.ids ?? [];
+      ids.forEach((id, i) => reference(id, 'nodes', `${pointer}/extensions/MSFT_lod/ids/${i}`));
+      const coverage = node.extras?.MSFT_screencoverage;
+      if (coverage !== undefined && (!Array.isArray(coverage) || coverage.length !== ids.length + 1)) {
+        report('warning', 'MSFT_LOD_COVERAGE_LENGTH', 'MSFT_screencoverage should have one value per level, including the base', `${pointer}/extras/MSFT_screencoverage`);
+      }
+    }
+    if (extensions.EXT_mesh_gpu_instancing) {
+      if (node.mesh === undefined) {
+        report('error', 'INSTANCING_WITHOUT_MESH', 'EXT_mesh_gpu_instancing requires the node to have a mesh', pointer);
+      }
+      let instanceCount: number | undefined;
+      for (const [semantic, index] of Object.entries(extensions.EXT_mesh_gpu_instancing.attributes ?? {}) as [string, number][]) {
+        const attributePointer = `${pointer}/extensions/EXT_mesh_gpu_instancing/attributes/${semantic}`;
+        if (!reference(index, 'accessors', attributePointer)) continue;
+        const count = accessorCount(index);
+        if (instanceCount === undefined) instanceCount = count;
+        else if (count !== instanceCount) {
+          report('error', 'INSTANCING_UNEQUAL_COUNT', `${semantic} has ${count} instances, other attributes have ${instanceCount}`, attributePointer);
+        }
+      }
+    }
+  });
+
+  // A node that is its own ancestor makes the hierarchy infinite
+  collection('nodes').forEach((_, n) => {
+    const seen = new Set<number>([n]);
+    for (let parent = parents.get(n); parent !== undefined; parent = parents.get(parent)) {
+      if (seen.has(parent)) {
+        report('error', 'NODE_LOOP', `Node ${n} is part of a cycle in the hierarchy`, `/nodes/${n}`);
+        break;
+      }
+      seen.add(parent);
+    }
+  });
+
+  // --- Scenes ---
+  collection('scenes').forEach((scene, s) => {
+    if (Array.isArray(scene.nodes) && scene.nodes.length === 0) {
+      report('error', 'EMPTY_ARRAY', 'Array "nodes" must be omitted when empty', `/scenes/${s}/nodes`);
+    } else if (scene.nodes === undefined) {
+      // Valid, but a viewer opening the file shows nothing
+      const message = s === gltf.scene ? `Default scene ${s} has no nodes, so nothing is displayed` : `Scene ${s} has no nodes`;
+      report('warning', 'SCENE_EMPTY', message, `/scenes/${s}`);
+    }
+    (scene.nodes ?? []).forEach((root: number, i: number) => {
+      const pointer = `/scenes/${s}/nodes/${i}`;
+      if (!reference(root, 'nodes', pointer)) return;
+      if (parents.has(root)) report('error', 'SCENE_NON_ROOT_NODE', `Node ${root} has a parent and cannot be a scene root`, pointer);
+    });
+  });
+  if (gltf.scene !== undefined && !(Number.isInteger(gltf.scene) && gltf.scene >= 0 && gltf.scene < collection('scenes').length)) {
+    report('error', 'UNRESOLVED_REFERENCE', `Default scene ${gltf.scene} does not exist`, '/scene');
+  }
+
+  // --- Materials, textures and images ---
+  collection('materials').forEach((material, m) => {
+    const pointer = `/materials/${m}`;
+    const textureInfos: [any, string][] = [
+      [material.pbrMetallicRoughness?.baseColorTexture, 'pbrMetallicRoughness/baseColorTexture'],
+      [material.pbrMetallicRoughness?.metallicRoughnessTexture, 'pbrMetallicRoughness/metallicRoughnessTexture'],
+      [material.normalTexture, 'normalTexture'],
+      [material.occlusionTexture, 'occlusionTexture'],
+      [material.emissiveTexture, 'emissiveTexture'],
+    ];
+    for (const [info, path] of textureInfos) {
+      if (info && requireField(info, 'index', `${pointer}/${path}`)) reference(info.index, 'textures', `${pointer}/${path}/index`);
+    }
+    if (material.alphaCutoff !== undefined && material.alphaMode !== 'MASK') {
+      report('warning', 'MATERIAL_ALPHA_CUTOFF_INVALID_MODE', 'alphaCutoff is ignored unless alphaMode is MASK', `${pointer}/alphaCutoff`);
+    }
+  });
+
+  collection('textures').forEach((texture, t) => {
+    const pointer = `/textures/${t}`;
+    if (texture.source !== undefined) reference(texture.source, 'images', `${pointer}/source`);
+    if (texture.sampler !== undefined) reference(texture.sampler, 'samplers', `${pointer}/sampler`);
+  });
+
+  collection('images').forEach((image, i) => {
+    const pointer = `/images/${i}`;
+    if (image.uri !== undefined && image.bufferView !== undefined) {
+      report('error', 'IMAGE_URI_AND_BUFFER_VIEW', 'An image must use either uri or bufferView, not both', pointer);
+    } else if (image.uri === undefined && image.bufferView === undefined) {
+      report('error', 'MISSING_REQUIRED_FIELD', 'An image needs a uri or a bufferView', pointer);
+    }
+    if (image.bufferView !== undefined) {
+      reference(image.bufferView, 'bufferViews', `${pointer}/bufferView`);
+      requireField(image, 'mimeType', pointer);
+    }
+  });
+
+  // --- Animations ---
+  collection('animations').forEach((animation, a) => {
+    const pointer = `/animations/${a}`;
+    if (!requireField(animation, 'channels', pointer) || !requireField(animation, 'samplers', pointer)) return;
+    const samplers: any[] = animation.samplers;
+    samplers.forEach((sampler, s) => {
+      const samplerPointer = `${pointer}/samplers/${s}`;
+      if (!reference(sampler.input, 'accessors', `${samplerPointer}/input`) || !reference(sampler.output, 'accessors', `${samplerPointer}/output`)) return;
+      const input = collection('accessors')[sampler.input];
+      if (input.componentType !== 5126 || input.type !== 'SCALAR') {
+        report('error', 'ANIMATION_SAMPLER_INPUT_TYPE', 'Sampler input must be float scalars', `${samplerPointer}/input`);
+      }
+      if (input.min === undefined || input.max === undefined) {
+        report('error', 'ANIMATION_SAMPLER_INPUT_BOUNDS', 'Sampler input accessors must define min and max', `${samplerPointer}/input`);
+      }
+      const times = readAccessor(sampler.input);
+      if (times && times.some((t, i) => i > 0 && t <= times[i - 1])) {
+        report('error', 'ANIMATION_SAMPLER_INPUT_NOT_INCREASING', 'Keyframe times must be strictly increasing', `${samplerPointer}/input`);
+      }
+      const expected = input.count * (sampler.interpolation === 'CUBICSPLINE' ? 3 : 1);
+      const output = collection('accessors')[sampler.output];
+      // Morph weight outputs hold several values per keyframe
+      if (output.type !== 'SCALAR' && output.count !== expected) {
+        report('error', 'ANIMATION_SAMPLER_OUTPUT_COUNT', `Sampler output has ${output.count} elements, expected ${expected}`, `${samplerPointer}/output`);
+      }
+    });
+    animation.channels.forEach((channel: any, c: number) => {
+      const channelPointer = `${pointer}/channels/${c}`;
+      if (!(Number.isInteger(channel.sampler) && channel.sampler >= 0 && channel.sampler < samplers.length)) {
+        report('error', 'UNRESOLVED_REFERENCE', `Animation sampler ${channel.sampler} does not exist`, `${channelPointer}/sampler`);
+      }
+      if (!requireField(channel, 'target', channelPointer)) return;
+      const { target } = channel;
+      if (target.path === 'pointer') {
+        // The animated property itself may be omitted and take its default value,
+        // but the object holding it has to exist
+        const jsonPointer = target.extensions?.KHR_animation_pointer?.pointer;
+        const owner = typeof jsonPointer === 'string' ? resolvePointer(gltf, jsonPointer.slice(0, jsonPointer.lastIndexOf('/'))) : undefined;
+        if (typeof owner !== 'object' || owner === null) {
+          report('error', 'ANIMATION_POINTER_UNRESOLVED', `Animated pointer ${JSON.stringify(jsonPointer)} does not resolve to an object property`, `${channelPointer}/target`);
+        }
+      } else {
+        if (!['translation', 'rotation', 'scale', 'weights'].includes(target.path)) {
+          report('error', 'VALUE_NOT_IN_LIST', `Invalid animation target path ${JSON.stringify(target.path)}`, `${channelPointer}/target/path`);
+        }
+        if (target.node !== undefined) reference(target.node, 'nodes', `${channelPointer}/target/node`);
+      }
+    });
+  });
+
+  // --- Cameras and lights ---
+  collection('cameras').forEach((camera, c) => {
+    const pointer = `/cameras/${c}`;
+    if (camera.type === 'perspective') {
+      const p = camera.perspective ?? {};
+      if (!(p.yfov > 0)) report('error', 'VALUE_OUT_OF_RANGE', 'yfov must be positive', `${pointer}/perspective/yfov`);
+      if (!(p.znear > 0)) report('error', 'VALUE_OUT_OF_RANGE', 'znear must be positive', `${pointer}/perspective/znear`);
+      if (p.zfar !== undefined && !(p.zfar > p.znear)) report('error', 'CAMERA_ZFAR_LEQUAL_ZNEAR', 'zfar must be greater than znear', `${pointer}/perspective/zfar`);
+    } else if (camera.type !== 'orthographic') {
+      report('error', 'VALUE_NOT_IN_LIST', `Invalid camera type ${JSON.stringify(camera.type)}`, `${pointer}/type`);
+    }
+  });
+
+  lights.forEach((light, l) => {
+    const pointer = `/extensions/KHR_lights_punctual/lights/${l}`;
+    if (!['directional', 'point', 'spot'].includes(light.type)) {
+      report('error', 'VALUE_NOT_IN_LIST', `Invalid light type ${JSON.stringify(light.type)}`, `${pointer}/type`);
+    }
+    if (light.type === 'spot' && !light.spot) requireField(light, 'spot', pointer);
+    if (light.type === 'directional' && light.range !== undefined) {
+      report('warning', 'LIGHT_RANGE_IGNORED', 'Directional lights have no range', `${pointer}/range`);
+    }
+  });
+
+  // --- Unused objects ---
+  // Buffers referenced only through unused views are still counted as used
+  for (const name of [...TRACKED_COLLECTIONS, 'lights' as const]) {
+    const usedSet = used.get(name)!;
+    const unused = collection(name).map((_, i) => i).filter(i => !usedSet.has(i));
+    if (unused.length > 0) {
+      const pointerBase = name === 'lights' ? '/extensions/KHR_lights_punctual/lights' : `/${name}`;
+      report('warning', 'UNUSED_OBJECT', `${unused.length} of ${collection(name).length} ${name} are never referenced: ${unused.slice(0, 10).join(', ')}${unused.length > 10 ? ', ...' : ''}`, pointerBase);
+    }
+  }
+
+  return finishReport(issues);
+}
+
+function readComponent(view: DataView, offset: number, componentType: number): number {
+  switch (componentType) {
+    case 5120: return view.getInt8(offset);
+    case 5121: return view.getUint8(offset);
+    case 5122: return view.getInt16(offset, true);
+    case 5123: return view.getUint16(offset, true);
+    case 5125: return view.getUint32(offset, true);
+    default: return view.getFloat32(offset, true);
+  }
+}
+
+// Follows a JSON pointer such as /materials/0/pbrMetallicRoughness/baseColorFactor
+function resolvePointer(root: any, pointer: string): any {
+  if (pointer === '') return root;
+  if (!pointer.startsWith('/')) return undefined;
+  return pointer.slice(1).split('/').reduce((value, token) => {
+    if (value === undefined || value === null) return undefined;
+    return value[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }, root);
+}
+
+/**
+ * Validates a binary .glb: the container layout, then the embedded glTF and its BIN chunk.
+ */
+export function validateGlb(glb: ArrayBuffer): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const fail = (code: string, message: string) => {
+    issues.push({ severity: 'error', code, message, pointer: '' });
+    return finishReport(issues);
+  };
+
+  if (glb.byteLength < 20) return fail('GLB_TOO_SHORT', 'File is too short to be a GLB');
+  const view = new DataView(glb);
+  if (view.getUint32(0, true) !== 0x46546C67) return fail('GLB_INVALID_MAGIC', 'Missing "glTF" magic number');
+  if (view.getUint32(4, true) !== 2) return fail('GLB_INVALID_VERSION', `GLB container version ${view.getUint32(4, true)} is not 2`);
+  if (view.getUint32(8, true) !== glb.byteLength) {
+    issues.push({ severity: 'error', code: 'GLB_LENGTH_MISMATCH', message: `Header length ${view.getUint32(8, true)} does not match the file size ${glb.byteLength}`, pointer: '' });
+  }
+
+  let json: any;
+  let binary: Uint8Array | undefined;
+  let offset = 12;
+  for (let chunkIndex = 0; offset + 8 <= glb.byteLength; chunkIndex++) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    if (offset + 8 + length > glb.byteLength) return fail('GLB_CHUNK_TOO_LONG', `Chunk ${chunkIndex} extends past the end of the file`);
+    if (length % 4 !== 0) {
+      issues.push({ severity: 'error', code: 'GLB_CHUNK_ALIGNMENT', message: `Chunk ${chunkIndex} length ${length} is not a multiple of 4`, pointer: '' });
+    }
+    const data = new Uint8Array(glb, offset + 8, length);
+    if (chunkIndex === 0) {
+      if (type !== 0x4E4F534A) return fail('GLB_UNEXPECTED_FIRST_CHUNK', 'The first chunk must be JSON');
+      try {
+        json = JSON.parse(new TextDecoder().decode(data));
+      } catch (e) {
+        return fail('INVALID_JSON', `JSON chunk cannot be parsed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    } else if (type === 0x004E4942) {
+      if (binary) issues.push({ severity: 'error', code: 'GLB_DUPLICATE_BIN', message: 'More than one BIN chunk', pointer: '' });
+      else binary = data;
+    }
+    offset += 8 + length;
+  }
+  if (json === undefined) return fail('GLB_MISSING_JSON', 'No JSON chunk found');
+
+  // The BIN chunk is the data of the first buffer, which then has no uri
+  const buffers = binary && json.buffers?.[0] && json.buffers[0].uri === undefined ? [binary] : [];
+  const result = validateGltf(json, buffers);
+  return finishReport([...issues, ...result.issues]);
+}
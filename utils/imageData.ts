@@ -0,0 +1,68 @@
+
+export interface DecodedDataUri {
+  bytes: Uint8Array;
+  mimeType?: string; // MIME type declared in the URI header, which may not match the bytes
+}
+
+/**
+ * Decodes a `data:` URI into its raw bytes. Payloads without `;base64` are
+ * percent-encoded text.
+ * @returns The decoded bytes, or null if the URI is not a valid data URI.
+ */
+export function decodeDataUri(uri: string): DecodedDataUri | null {
+  const match = /^data:([^;,]*)([^,]*),/.exec(uri);
+  if (!match) return null;
+  const mimeType = match[1] || undefined;
+  const payload = uri.slice(match[0].length);
+
+  let binary: string;
+  try {
+    if (!match[2].endsWith(';base64')) {
+      return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType };
+    }
+    binary = atob(payload);
+  } catch {
+    return null; // Malformed base64 or percent-encoding
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, mimeType };
+}
+
+/**
+ * Identifies an image format from its signature bytes.
+ * @returns The MIME type, or undefined if the format is not recognised.
+ */
+export function detectImageMimeType(bytes: Uint8Array): string | undefined {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b);
+
+  if (startsWith([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png';
+  if (startsWith([0xFF, 0xD8, 0xFF])) return 'image/jpeg';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp'; // RIFF....WEBP
+  if (startsWith([0xAB, 0x4B, 0x54, 0x58, 0x20, 0x32, 0x30, 0xBB])) return 'image/ktx2';
+  return undefined;
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash combined with the length, used to find identical images.
+ * Callers should still compare the bytes of entries with matching hashes.
+ */
+export function hashBytes(bytes: Uint8Array): string {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}:${bytes.length}`;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,65 @@
+
+import type { TextureOffsetAnimation } from './animation';
+
+export type AlphaMode = 'OPAQUE' | 'MASK' | 'BLEND';
+
+// UV transform applied through KHR_texture_transform: uv' = T(offset) * R(rotation) * S(scale) * uv
+export interface TextureTransform {
+  offset?: [number, number];
+  rotation?: number; // Radians, counter-clockwise
+  scale?: [number, number];
+}
+
+// Texture filtering and wrapping, using the glTF sampler enums (e.g. 9729 LINEAR, 10497 REPEAT)
+export interface TextureSampler {
+  magFilter?: number;
+  minFilter?: number;
+  wrapS?: number;
+  wrapT?: number;
+}
+
+export type TextureSlot = 'baseColorTexture' | 'metallicRoughnessTexture' | 'normalTexture' | 'occlusionTexture' | 'emissiveTexture';
+
+// How one texture of a material is sampled, beyond the image itself
+export interface TextureSettings {
+  sampler?: TextureSampler; // Defaults to linear mipmapped filtering with repeat wrapping
+  texCoord?: number;        // UV set: 0 reads the geometry's uvs, 1 its uvs1
+  transform?: TextureTransform; // Replaces the material-wide textureTransform for this texture
+}
+
+/**
+ * A glTF metallic-roughness material. Textures are image URIs (usually data URIs).
+ * Every property is optional: anything left unset falls back to the builder's
+ * defaults, which are derived from the geometry's texture, normal map and color.
+ */
+export interface Material {
+  name?: string;
+  baseColorFactor?: [number, number, number, number]; // RGBA multiplier
+  baseColorTexture?: string;
+  metallicFactor?: number;  // 0 (dielectric) to 1 (metal)
+  roughnessFactor?: number; // 0 (mirror) to 1 (fully rough)
+  metallicRoughnessTexture?: string; // Roughness in G, metalness in B
+  normalTexture?: string;
+  normalScale?: number;
+  occlusionTexture?: string; // Occlusion in R
+  occlusionStrength?: number;
+  emissiveFactor?: [number, number, number];
+  emissiveTexture?: string;
+  alphaMode?: AlphaMode;
+  alphaCutoff?: number; // Only used with alphaMode MASK
+  doubleSided?: boolean;
+  textureTransform?: TextureTransform; // Applied to every texture of the material
+  textureSettings?: { [slot in TextureSlot]?: TextureSettings }; // Per-texture sampler, UV set and transform
+  textureAnimation?: TextureOffsetAnimation; // Animates the texture transform offset, e.g. flowing water
+}
+
+/**
+ * Layers material overrides on top of a base material. Properties that are
+ * undefined in the override keep the base value.
+ */
+export function mergeMaterials(base: Material | undefined, override: Material | undefined): Material | undefined {
+  if (!override) return base;
+  if (!base) return override;
+  const defined = Object.entries(override).filter(([, value]) => value !== undefined);
+  return { ...base, ...Object.fromEntries(defined) };
+}
@@ -0,0 +1,386 @@
+
+import { createIndexArray, isTriangleList, type Geometry, type GeometryPrimitive } from './geometry';
+import type { Shape } from './gltfBuilder';
+
+export interface OptimizeOptions {
+  weld?: boolean;       // Merge vertices with matching attributes (default true)
+  tolerance?: number;   // Attribute values closer than this are considered equal; 0 requires exact matches
+  vertexCache?: boolean; // Reorder triangles for post-transform cache locality (default true)
+  vertexFetch?: boolean; // Reorder vertices in first-use order (default true)
+}
+
+export interface OptimizationStats {
+  vertexCountBefore: number;
+  vertexCountAfter: number;
+  triangleCountBefore: number;
+  triangleCountAfter: number;
+  byteSizeBefore: number; // Vertex and index data as written by the builder
+  byteSizeAfter: number;
+  acmrBefore: number; // Average cache miss ratio (vertex shader runs per triangle), lower is better
+  acmrAfter: number;
+}
+
+// Per-vertex attribute arrays of a geometry, with their component counts
+function vertexAttributes(geometry: Geometry): { data: Float32Array; size: number }[] {
+  const vertexCount = geometry.positions.length / 3;
+  const attributes = [
+    { data: geometry.positions, size: 3 },
+    { data: geometry.normals, size: 3 },
+  ];
+  if (geometry.colors && geometry.colors.length > 0) attributes.push({ data: geometry.colors, size: geometry.colors.length / vertexCount });
+  if (geometry.uvs && geometry.uvs.length > 0) attributes.push({ data: geometry.uvs, size: 2 });
+  if (geometry.uvs1 && geometry.uvs1.length > 0) attributes.push({ data: geometry.uvs1, size: 2 });
+  if (geometry.tangents && geometry.tangents.length > 0) attributes.push({ data: geometry.tangents, size: 4 });
+  if (geometry.featureIds && geometry.featureIds.length > 0) attributes.push({ data: geometry.featureIds, size: 1 });
+  return attributes;
+}
+
+// Rebuilds every vertex attribute so that new vertex i takes its data from old vertex source[i]
+function remapAttributes(geometry: Geometry, source: ArrayLike<number>, newCount: number): Geometry {
+  const remap = (data: Float32Array | undefined, size: number): Float32Array | undefined => {
+    if (!data || data.length === 0) return data;
+    const out = new Float32Array(newCount * size);
+    for (let i = 0; i < newCount; i++) {
+      for (let c = 0; c < size; c++) out[i * size + c] = data[source[i] * size + c];
+    }
+    return out;
+  };
+  const vertexCount = geometry.positions.length / 3;
+  return {
+    ...geometry,
+    positions: remap(geometry.positions, 3)!,
+    normals: remap(geometry.normals, 3)!,
+    colors: remap(geometry.colors, geometry.colors ? geometry.colors.length / vertexCount : 0),
+    uvs: remap(geometry.uvs, 2),
+    uvs1: remap(geometry.uvs1, 2),
+    tangents: remap(geometry.tangents, 4),
+    featureIds: remap(geometry.featureIds, 1),
+  };
+}
+
+/**
+ * Merges vertices whose attributes all match, within `tolerance` if one is given.
+ * With a tolerance, values are snapped to a grid of that size before comparison, so
+ * two values just either side of a grid line may stay separate.
+ * Triangles that collapse as a result are removed.
+ */
+export function weldVertices(geometry: Geometry, tolerance = 0): Geometry {
+  const vertexCount = geometry.positions.length / 3;
+  const attributes = vertexAttributes(geometry);
+  const keyMap = new Map<string, number>();
+  const remap = new Uint32Array(vertexCount);
+  const source: number[] = [];
+
+  const parts: (number | string)[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    parts.length = 0;
+    for (const { data, size } of attributes) {
+      for (let c = 0; c < size; c++) {
+        const value = data[v * size + c];
+        parts.push(tolerance > 0 ? Math.round(value / tolerance) : value);
+      }
+    }
+    const key = parts.join(',');
+    let target = keyMap.get(key);
+    if (target === undefined) {
+      target = source.length;
+      keyMap.set(key, target);
+      source.push(v);
+    }
+    remap[v] = target;
+  }
+
+  const indices = Array.from(geometry.indices, i => remap[i]);
+  return removeDegenerateTriangles({
+    ...remapAttributes(geometry, source, source.length),
+    indices: createIndexArray(indices, source.length),
+  });
+}
+
+// Drops triangles that reference the same vertex more than once, keeping primitive ranges consistent.
+// Point and line primitives are copied unchanged.
+function removeDegenerateTriangles(geometry: Geometry): Geometry {
+  const ranges = primitiveRanges(geometry);
+  const indices: number[] = [];
+  const primitives: GeometryPrimitive[] = [];
+  for (const range of ranges) {
+    const start = indices.length;
+    const end = range.indicesOffset + range.indicesCount;
+    if (isTriangleList(range)) {
+      for (let i = range.indicesOffset; i + 2 < end; i += 3) {
+        const a = geometry.indices[i], b = geometry.indices[i + 1], c = geometry.indices[i + 2];
+        if (a !== b && b !== c && a !== c) indices.push(a, b, c);
+      }
+    } else {
+      for (let i = range.indicesOffset; i < end; i++) indices.push(geometry.indices[i]);
+    }
+    primitives.push({ ...range, indicesOffset: start, indicesCount: indices.length - start });
+  }
+  return {
+    ...geometry,
+    indices: createIndexArray(indices, geometry.positions.length / 3),
+    primitives: geometry.primitives ? primitives : undefined,
+  };
+}
+
+// The primitive ranges of a geometry, or its full index range when it has none
+export function primitiveRanges(geometry: Pick<Geometry, 'indices' | 'primitives'>): GeometryPrimitive[] {
+  return geometry.primitives && geometry.primitives.length > 0
+    ? geometry.primitives
+    : [{ indicesOffset: 0, indicesCount: geometry.indices.length }];
+}
+
+// --- Vertex cache optimization (Tom Forsyth's linear-speed algorithm) ---
+const CACHE_SIZE = 32;
+const CACHE_DECAY_POWER = 1.5;
+const LAST_TRI_SCORE = 0.75;
+const VALENCE_BOOST_SCALE = 2.0;
+const VALENCE_BOOST_POWER = 0.5;
+
+function vertexScore(cachePosition: number, remainingValence: number): number {
+  if (remainingValence === 0) return -1;
+  let score = 0;
+  if (cachePosition >= 0) {
+    score = cachePosition < 3
+      ? LAST_TRI_SCORE
+      : Math.pow((CACHE_SIZE - cachePosition) / (CACHE_SIZE - 3), CACHE_DECAY_POWER);
+  }
+  return score + VALENCE_BOOST_SCALE * Math.pow(remainingValence, -VALENCE_BOOST_POWER);
+}
+
+/**
+ * Reorders triangles so that consecutive triangles reuse recently transformed vertices.
+ * @param indices - Triangle list indices.
+ * @param vertexCount - Number of vertices referenced by the indices.
+ * @returns The same triangles in cache-friendly order.
+ */
+export function optimizeVertexCache(indices: ArrayLike<number>, vertexCount: number): Uint32Array {
+  const triCount = Math.floor(indices.length / 3);
+  const result = new Uint32Array(triCount * 3);
+  if (triCount === 0) return result;
+
+  // Triangle adjacency per vertex. The first `remaining[v]` entries of a vertex's
+  // list are the triangles that have not been emitted yet.
+  const remaining = new Uint32Array(vertexCount);
+  for (let i = 0; i < triCount * 3; i++) remaining[indices[i]]++;
+  const adjOffset = new Uint32Array(vertexCount + 1);
+  for (let v = 0; v < vertexCount; v++) adjOffset[v + 1] = adjOffset[v] + remaining[v];
+  const adjacency = new Uint32Array(triCount * 3);
+  const fill = adjOffset.slice(0, vertexCount);
+  for (let t = 0; t < triCount; t++) {
+    for (let c = 0; c < 3; c++) adjacency[fill[indices[t * 3 + c]]++] = t;
+  }
+
+  const cachePosition = new Int32Array(vertexCount).fill(-1);
+  const scores = new Float32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) scores[v] = vertexScore(-1, remaining[v]);
+  const emitted = new Uint8Array(triCount);
+  const triangleScore = (t: number) => scores[indices[t * 3]] + scores[indices[t * 3 + 1]] + scores[indices[t * 3 + 2]];
+
+  let bestTri = 0;
+  for (let t = 1; t < triCount; t++) {
+    if (triangleScore(t) > triangleScore(bestTri)) bestTri = t;
+  }
+
+  let cache: number[] = [];
+  let scanCursor = 0;
+  for (let out = 0; out < triCount; out++) {
+    if (bestTri < 0) {
+      // Nothing adjacent to the cache is left; continue with the next unused triangle
+      while (emitted[scanCursor]) scanCursor++;
+      bestTri = scanCursor;
+    }
+
+    const tri = [indices[bestTri * 3], indices[bestTri * 3 + 1], indices[bestTri * 3 + 2]];
+    result.set(tri, out * 3);
+    emitted[bestTri] = 1;
+
+    // Remove the triangle from its vertices' active adjacency
+    for (const v of tri) {
+      const start = adjOffset[v];
+      const end = start + remaining[v];
+      for (let i = start; i < end; i++) {
+        if (adjacency[i] === bestTri) {
+          adjacency[i] = adjacency[end - 1];
+          adjacency[end - 1] = bestTri;
+          remaining[v]--;
+          break;
+        }
+      }
+    }
+
+    // Move the triangle's vertices to the front of the simulated LRU cache
+    const newCache = [...tri, ...cache.filter(v => v !== tri[0] && v !== tri[1] && v !== tri[2])];
+    for (let i = CACHE_SIZE; i < newCache.length; i++) {
+      cachePosition[newCache[i]] = -1;
+      scores[newCache[i]] = vertexScore(-1, remaining[newCache[i]]);
+    }
+    cache = newCache.slice(0, CACHE_SIZE);
+    cache.forEach((v, i) => {
+      cachePosition[v] = i;
+      scores[v] = vertexScore(i, remaining[v]);
+    });
+
+    // The next triangle is the best-scoring one that touches the cache
+    bestTri = -1;
+    let bestScore = -Infinity;
+    for (const v of cache) {
+      for (let i = adjOffset[v]; i < adjOffset[v] + remaining[v]; i++) {
+        const t = adjacency[i];
+        const score = triangleScore(t);
+        if (score > bestScore) {
+          bestScore = score;
+          bestTri = t;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Measures the average cache miss ratio of a triangle list with a FIFO cache,
+ * which approximates how many times each triangle runs the vertex shader.
+ */
+export function analyzeVertexCache(indices: ArrayLike<number>, vertexCount: number, cacheSize = 16): number {
+  const triCount = Math.floor(indices.length / 3);
+  if (triCount === 0) return 0;
+  // Miss count at the time each vertex entered the cache, -1 if it never did
+  const timestamps = new Int32Array(vertexCount).fill(-1);
+  let misses = 0;
+  for (let i = 0; i < triCount * 3; i++) {
+    const v = indices[i];
+    if (timestamps[v] < 0 || misses - timestamps[v] >= cacheSize) {
+      timestamps[v] = misses;
+      misses++;
+    }
+  }
+  return misses / triCount;
+}
+
+/**
+ * Reorders vertices in the order the index buffer first uses them, improving memory
+ * locality for vertex fetch. Unreferenced vertices are dropped.
+ */
+export function optimizeVertexFetch(geometry: Geometry): Geometry {
+  const vertexCount = geometry.positions.length / 3;
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const source: number[] = [];
+  const indices = Array.from(geometry.indices, i => {
+    if (remap[i] < 0) {
+      remap[i] = source.length;
+      source.push(i);
+    }
+    return remap[i];
+  });
+  return {
+    ...remapAttributes(geometry, source, source.length),
+    indices: createIndexArray(indices, source.length),
+  };
+}
+
+// The indices of every triangle list primitive, concatenated
+function triangleIndices(geometry: Geometry): Uint32Array {
+  const ranges = primitiveRanges(geometry).filter(isTriangleList);
+  const indices = new Uint32Array(ranges.reduce((acc, range) => acc + range.indicesCount, 0));
+  let offset = 0;
+  for (const range of ranges) {
+    indices.set(geometry.indices.subarray(range.indicesOffset, range.indicesOffset + range.indicesCount), offset);
+    offset += range.indicesCount;
+  }
+  return indices;
+}
+
+// Bytes the builder writes for this geometry's vertex and index data
+function geometryByteSize(geometry: Geometry): number {
+  const vertexBytes = vertexAttributes(geometry).reduce((acc, a) => acc + a.data.byteLength, 0);
+  const indexBytes = primitiveRanges(geometry).reduce((acc, range) => {
+    let maxIndex = 0;
+    for (let i = range.indicesOffset; i < range.indicesOffset + range.indicesCount; i++) {
+      maxIndex = Math.max(maxIndex, geometry.indices[i]);
+    }
+    return acc + range.indicesCount * (maxIndex >= 65535 ? 4 : 2);
+  }, 0);
+  return vertexBytes + indexBytes;
+}
+
+/**
+ * Runs the optimization passes on a geometry: welding, vertex cache ordering of each
+ * primitive's triangles, then vertex fetch ordering.
+ */
+export function optimizeGeometry(geometry: Geometry, options: OptimizeOptions = {}): { geometry: Geometry; stats: OptimizationStats } {
+  const { weld = true, tolerance = 0, vertexCache = true, vertexFetch = true } = options;
+  let result = weld ? weldVertices(geometry, tolerance) : geometry;
+
+  if (vertexCache) {
+    const vertexCount = result.positions.length / 3;
+    const indices = new Uint32Array(result.indices);
+    for (const range of primitiveRanges(result).filter(isTriangleList)) {
+      const slice = result.indices.subarray(range.indicesOffset, range.indicesOffset + range.indicesCount);
+      indices.set(optimizeVertexCache(slice, vertexCount), range.indicesOffset);
+    }
+    result = { ...result, indices: createIndexArray(indices, vertexCount) };
+  }
+
+  if (vertexFetch) {
+    result = optimizeVertexFetch(result);
+  }
+
+  const trianglesBefore = triangleIndices(geometry);
+  const trianglesAfter = triangleIndices(result);
+  return {
+    geometry: result,
+    stats: {
+      vertexCountBefore: geometry.positions.length / 3,
+      vertexCountAfter: result.positions.length / 3,
+      triangleCountBefore: Math.floor(trianglesBefore.length / 3),
+      triangleCountAfter: Math.floor(trianglesAfter.length / 3),
+      byteSizeBefore: geometryByteSize(geometry),
+      byteSizeAfter: geometryByteSize(result),
+      acmrBefore: analyzeVertexCache(trianglesBefore, geometry.positions.length / 3),
+      acmrAfter: analyzeVertexCache(trianglesAfter, result.positions.length / 3),
+    },
+  };
+}
+
+/**
+ * Optimizes the geometry of every shape in a scene. Geometry shared between shapes is
+ * optimized once and stays shared. Statistics cover each distinct geometry once, with
+ * ACMR weighted by triangle count.
+ */
+export function optimizeShapes(shapes: Shape[], options: OptimizeOptions = {}): { shapes: Shape[]; stats: OptimizationStats } {
+  const optimized = new Map<Geometry, Geometry>();
+  const totals: OptimizationStats = {
+    vertexCountBefore: 0, vertexCountAfter: 0,
+    triangleCountBefore: 0, triangleCountAfter: 0,
+    byteSizeBefore: 0, byteSizeAfter: 0,
+    acmrBefore: 0, acmrAfter: 0,
+  };
+
+  const visit = (shape: Shape): Shape => {
+    let geometry = shape.geometry;
+    if (geometry) {
+      let result = optimized.get(geometry);
+      if (!result) {
+        const { geometry: optimizedGeometry, stats } = optimizeGeometry(geometry, options);
+        result = optimizedGeometry;
+        optimized.set(geometry, result);
+        totals.vertexCountBefore += stats.vertexCountBefore;
+        totals.vertexCountAfter += stats.vertexCountAfter;
+        totals.triangleCountBefore += stats.triangleCountBefore;
+        totals.triangleCountAfter += stats.triangleCountAfter;
+        totals.byteSizeBefore += stats.byteSizeBefore;
+        totals.byteSizeAfter += stats.byteSizeAfter;
+        totals.acmrBefore += stats.acmrBefore * stats.triangleCountBefore;
+        totals.acmrAfter += stats.acmrAfter * stats.triangleCountAfter;
+      }
+      geometry = result;
+    }
+    return { ...shape, geometry, children: shape.children?.map(visit) };
+  };
+
+  const result = shapes.map(visit);
+  totals.acmrBefore = totals.triangleCountBefore > 0 ? totals.acmrBefore / totals.triangleCountBefore : 0;
+  totals.acmrAfter = totals.triangleCountAfter > 0 ? totals.acmrAfter / totals.triangleCountAfter : 0;
+  return { shapes: result, stats: totals };
+}
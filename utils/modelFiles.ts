@@ -0,0 +1,58 @@
+
+// Files uploaded alongside a model (e.g. a .gltf or .obj), keyed by their path relative to it (e.g. "textures/bark.png")
+export interface ModelFiles {
+    [path: string]: ArrayBuffer;
+}
+
+export const MIME_TYPES: { [extension: string]: string } = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    const len = bytes.byteLength;
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+// Encodes an image file as a data URI, taking the MIME type from its extension unless given
+export function imageDataUri(data: ArrayBuffer, path: string, mimeType?: string): string {
+    const extension = path.split('?')[0].split('.').pop()?.toLowerCase() || '';
+    const mime = mimeType || MIME_TYPES[extension] || 'image/png';
+    return `data:${mime};base64,${arrayBufferToBase64(data)}`;
+}
+
+// Collapses "." and ".." segments and backslashes so URIs can be compared with uploaded paths
+function normalizePath(path: string): string {
+    const segments: string[] = [];
+    for (const segment of path.replace(/\\/g, '/').split('/')) {
+        if (segment === '' || segment === '.') continue;
+        if (segment === '..') segments.pop();
+        else segments.push(segment);
+    }
+    return segments.join('/');
+}
+
+/**
+ * Resolves a relative URI against the uploaded files. Falls back to a unique file
+ * with the same name, since browsers drop the folder structure of multi-file picks.
+ */
+export function findFile(files: ModelFiles, uri: string): ArrayBuffer | undefined {
+    let path: string;
+    try {
+        path = normalizePath(decodeURIComponent(uri));
+    } catch {
+        path = normalizePath(uri);
+    }
+    if (files[path]) return files[path];
+
+    const name = path.split('/').pop();
+    const matches = Object.keys(files).filter(key => normalizePath(key).split('/').pop() === name);
+    return matches.length === 1 ? files[matches[0]] : undefined;
+}
@@ -1,10 +1,88 @@
 
+import type { Material as PbrMaterial, TextureSettings, TextureSlot } from './material';
+
+// A texture map statement such as "map_Kd -s 2 2 bark.png", with the options glTF can express
+export interface TextureMap {
+  file: string;
+  offset?: [number, number]; // -o
+  scale?: [number, number];  // -s
+  clamp?: boolean;           // -clamp on
+  bumpMultiplier?: number;   // -bm, only meaningful on bump and normal maps
+}
+
 export interface Material {
+  ka?: [number, number, number]; // Ambient color
   kd?: [number, number, number]; // Diffuse color
+  ks?: [number, number, number]; // Specular color
+  ke?: [number, number, number]; // Emissive color
+  ns?: number; // Specular exponent, 0 to 1000
+  d?: number;  // Dissolve (opacity), also read from Tr as 1 - Tr
+  illum?: number; // Illumination model
+  pr?: number; // PBR roughness
+  pm?: number; // PBR metalness
+  mapKa?: TextureMap;
+  mapKd?: TextureMap;
+  mapKs?: TextureMap;
+  mapKe?: TextureMap;
+  mapD?: TextureMap;
+  mapBump?: TextureMap; // map_Bump or bump
+  norm?: TextureMap;    // Tangent-space normal map
+  mapPr?: TextureMap;
+  mapPm?: TextureMap;
 }
 
 export type MaterialLibrary = Map<string, Material>;
 
+const parseColor = (parts: string[]): [number, number, number] | undefined => {
+  const values = parts.slice(0, 3).map(parseFloat);
+  if (values.length === 0 || isNaN(values[0])) return undefined; // e.g. "Kd spectral file.rfl"
+  // A single value is a gray
+  return [values[0], isNaN(values[1]) ? values[0] : values[1], isNaN(values[2]) ? values[0] : values[2]];
+};
+
+// Number of arguments each texture option takes. -o, -s and -t take one to three numbers.
+const TEXTURE_OPTION_ARGS: { [option: string]: number } = {
+  '-blendu': 1, '-blendv': 1, '-boost': 1, '-bm': 1, '-cc': 1, '-clamp': 1,
+  '-imfchan': 1, '-texres': 1, '-type': 1, '-mm': 2, '-o': 3, '-s': 3, '-t': 3,
+};
+
+function parseTextureMap(parts: string[]): TextureMap | undefined {
+  const map: Partial<TextureMap> = {};
+  let i = 0;
+  while (i < parts.length && parts[i].startsWith('-') && TEXTURE_OPTION_ARGS[parts[i]] !== undefined) {
+    const option = parts[i++];
+    const args: string[] = [];
+    const maxArgs = TEXTURE_OPTION_ARGS[option];
+    const numeric = option === '-o' || option === '-s' || option === '-t';
+    while (args.length < maxArgs && i < parts.length && (!numeric || !isNaN(parseFloat(parts[i])))) {
+      args.push(parts[i++]);
+    }
+
+    switch (option) {
+      case '-o':
+        map.offset = [parseFloat(args[0]) || 0, parseFloat(args[1]) || 0];
+        break;
+      case '-s':
+        map.scale = [parseFloat(args[0]) || 1, parseFloat(args[1]) || 1];
+        break;
+      case '-clamp':
+        map.clamp = args[0] === 'on';
+        break;
+      case '-bm':
+        map.bumpMultiplier = parseFloat(args[0]);
+        break;
+    }
+  }
+
+  // The rest is the file name, which may contain spaces
+  const file = parts.slice(i).join(' ');
+  return file ? { ...map, file } : undefined;
+}
+
+/**
+ * Parses an MTL material library, including the PBR extension statements
+ * (Pr, Pm, Ke, map_Pr, norm ...) and texture map options.
+ */
 export function parseMtl(mtlText: string): MaterialLibrary {
   const materials: MaterialLibrary = new Map();
   let currentMaterial: Material | null = null;
@@ -13,34 +91,147 @@ export function parseMtl(mtlText: string): MaterialLibrary {
   const lines = mtlText.split('\n');
 
   for (const line of lines) {
-    const parts = line.trim().split(/\s+/);
+    // Strip trailing comments, e.g. "Kd 0.5 0.5 0.5 # gray"
+    const parts = line.replace(/#.*/, '').trim().split(/\s+/);
     const type = parts.shift();
 
-    if (!type || type.startsWith('#')) continue;
+    if (!type) continue;
+
+    if (type === 'newmtl') {
+      // Start a new material
+      currentMaterialName = parts.join(' ');
+      if (currentMaterialName) {
+          currentMaterial = {};
+          materials.set(currentMaterialName, currentMaterial);
+      }
+      continue;
+    }
+    if (!currentMaterial) continue;
 
     switch (type) {
-      case 'newmtl':
-        // Start a new material
-        currentMaterialName = parts[0];
-        if (currentMaterialName) {
-            currentMaterial = {};
-            materials.set(currentMaterialName, currentMaterial);
-        }
+      case 'Ka':
+        currentMaterial.ka = parseColor(parts);
         break;
       case 'Kd':
-        // Diffuse color
-        if (currentMaterial && parts.length >= 3) {
-          currentMaterial.kd = [
-            parseFloat(parts[0]),
-            parseFloat(parts[1]),
-            parseFloat(parts[2]),
-          ];
-        }
-        break;
-      // Other properties like Ka, Ks, Ns, map_Kd could be handled here
-      // but are ignored for simplicity.
+        currentMaterial.kd = parseColor(parts);
+        break;
+      case 'Ks':
+        currentMaterial.ks = parseColor(parts);
+        break;
+      case 'Ke':
+        currentMaterial.ke = parseColor(parts);
+        break;
+      case 'Ns':
+        currentMaterial.ns = parseFloat(parts[0]);
+        break;
+      case 'd':
+        // "d -halo 0.5" is treated as a plain dissolve
+        currentMaterial.d = parseFloat(parts[parts.length - 1]);
+        break;
+      case 'Tr':
+        currentMaterial.d = 1 - parseFloat(parts[0]);
+        break;
+      case 'illum':
+        currentMaterial.illum = parseInt(parts[0], 10);
+        break;
+      case 'Pr':
+        currentMaterial.pr = parseFloat(parts[0]);
+        break;
+      case 'Pm':
+        currentMaterial.pm = parseFloat(parts[0]);
+        break;
+      case 'map_Ka':
+        currentMaterial.mapKa = parseTextureMap(parts);
+        break;
+      case 'map_Kd':
+        currentMaterial.mapKd = parseTextureMap(parts);
+        break;
+      case 'map_Ks':
+        currentMaterial.mapKs = parseTextureMap(parts);
+        break;
+      case 'map_Ke':
+        currentMaterial.mapKe = parseTextureMap(parts);
+        break;
+      case 'map_d':
+        currentMaterial.mapD = parseTextureMap(parts);
+        break;
+      case 'map_Bump':
+      case 'map_bump':
+      case 'bump':
+        currentMaterial.mapBump = parseTextureMap(parts);
+        break;
+      case 'norm':
+        currentMaterial.norm = parseTextureMap(parts);
+        break;
+      case 'map_Pr':
+        currentMaterial.mapPr = parseTextureMap(parts);
+        break;
+      case 'map_Pm':
+        currentMaterial.mapPm = parseTextureMap(parts);
+        break;
     }
   }
 
   return materials;
 }
+
+/**
+ * Maps an MTL material to a glTF metallic-roughness material.
+ *
+ * Kd and d become the base color, Pm/Pr the metalness and roughness (roughness falls
+ * back to an estimate from Ns), Ke the emissive color. map_Kd, map_Pr (a grayscale
+ * roughness map), map_Ke and norm/map_Bump become textures; `resolveTexture` turns their
+ * file names into image URIs and maps it cannot resolve are left out. glTF reads alpha
+ * from the base color texture, so map_d only switches the material to blending. Ka and
+ * Ks have no metallic-roughness equivalent and are ignored.
+ */
+export function mtlToMaterial(name: string, mtl: Material, resolveTexture: (file: string) => string | undefined): PbrMaterial {
+  const material: PbrMaterial = { name };
+  const textureSettings: { [slot in TextureSlot]?: TextureSettings } = {};
+
+  const addTexture = (slot: TextureSlot, map: TextureMap | undefined): boolean => {
+    const uri = map ? resolveTexture(map.file) : undefined;
+    if (!map || !uri) return false;
+    material[slot] = uri;
+
+    const settings: TextureSettings = {};
+    if (map.offset || map.scale) {
+      // OBJ texture space has its origin at the bottom left, glTF at the top left
+      const [su, sv] = map.scale || [1, 1];
+      const [ou, ov] = map.offset || [0, 0];
+      settings.transform = { offset: [ou, 1 - sv - ov], scale: [su, sv] };
+    }
+    if (map.clamp) {
+      settings.sampler = { magFilter: 9729, minFilter: 9987, wrapS: 33071, wrapT: 33071 }; // CLAMP_TO_EDGE
+    }
+    if (settings.transform || settings.sampler) textureSettings[slot] = settings;
+    return true;
+  };
+
+  const hasColorTexture = addTexture('baseColorTexture', mtl.mapKd);
+  if (mtl.kd || mtl.d !== undefined) {
+    material.baseColorFactor = [...(mtl.kd || [1, 1, 1]), mtl.d ?? 1] as [number, number, number, number];
+  }
+  material.alphaMode = (mtl.d !== undefined && mtl.d < 1) || (mtl.mapD && hasColorTexture) ? 'BLEND' : 'OPAQUE';
+
+  if (mtl.pm !== undefined) material.metallicFactor = mtl.pm;
+  if (mtl.pr !== undefined) {
+    material.roughnessFactor = mtl.pr;
+  } else if (mtl.ns !== undefined) {
+    material.roughnessFactor = Math.min(Math.max(1 - Math.sqrt(mtl.ns / 1000), 0), 1);
+  }
+  if (addTexture('metallicRoughnessTexture', mtl.mapPr) && mtl.pr === undefined) {
+    material.roughnessFactor = 1;
+  }
+
+  const normalMap = mtl.norm || mtl.mapBump;
+  if (addTexture('normalTexture', normalMap) && normalMap?.bumpMultiplier !== undefined) {
+    material.normalScale = normalMap.bumpMultiplier;
+  }
+
+  if (mtl.ke) material.emissiveFactor = mtl.ke;
+  addTexture('emissiveTexture', mtl.mapKe);
+
+  if (Object.keys(textureSettings).length > 0) material.textureSettings = textureSettings;
+  return material;
+}
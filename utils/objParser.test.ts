@@ -0,0 +1,16 @@
+
+import { describe, expect, it } from 'vitest';
+import { parseObj } from './objParser';
+
+describe('parseObj', () => {
+  it('resolves materials whose names contain spaces', () => {
+    const mtl = 'newmtl Tree Bark\nKd 0.5 0.3 0.2\n';
+    const obj = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Tree Bark\nf 1 2 3\n';
+
+    const geometry = parseObj(obj, mtl);
+
+    expect(geometry.primitives).toHaveLength(1);
+    expect(geometry.primitives![0].material?.name).toBe('Tree Bark');
+    expect(geometry.primitives![0].material?.baseColorFactor).toEqual([0.5, 0.3, 0.2, 1]);
+  });
+});
@@ -1,24 +1,85 @@
 
-import type { Geometry } from './geometry';
-import { parseMtl, type MaterialLibrary } from './mtlParser';
+import { createIndexArray, type Geometry, type GeometryPrimitive } from './geometry';
+import type { Shape } from './gltfBuilder';
+import type { Material } from './material';
+import { findFile, imageDataUri, type ModelFiles } from './modelFiles';
+import { mtlToMaterial, parseMtl, type MaterialLibrary } from './mtlParser';
 
 // Helper for vector operations
-const subtract = (a: number[], b: number[]): number[] => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
-const cross = (a: number[], b: number[]): number[] => [
-  a[1] * b[2] - a[2] * b[1],
-  a[2] * b[0] - a[0] * b[2],
-  a[0] * b[1] - a[1] * b[0],
-];
 const normalize = (v: number[]): number[] => {
   const len = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
   return len > 0.00001 ? [v[0] / len, v[1] / len, v[2] / len] : [0, 0, 0];
 };
 
-export function parseObj(objText: string, mtlText?: string): Geometry {
+// One corner of a face or line: indices into the v, vt and vn lists (-1 when absent)
+interface ObjCorner {
+  v: number;
+  vt: number;
+  vn: number;
+}
+
+interface ObjFace {
+  corners: ObjCorner[];
+  material: string | null;
+  group?: string; // Name of the enclosing "g" group, or else of the "o" object
+  smoothingGroup: number; // 0 when smoothing is off
+}
+
+// Resolves a 1-based OBJ index, where negative values count back from the latest element
+const resolveIndex = (token: string | undefined, count: number): number => {
+  if (!token) return -1;
+  const index = parseInt(token, 10);
+  if (isNaN(index) || index === 0) return -1;
+  const resolved = index > 0 ? index - 1 : count + index;
+  return resolved >= 0 && resolved < count ? resolved : -1;
+};
+
+// Area-weighted polygon normal (Newell's method), which also copes with non-planar faces
+const polygonNormal = (points: number[][]): number[] => {
+  const n = [0, 0, 0];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    n[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    n[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    n[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  }
+  return n;
+};
+
+/**
+ * Parses an OBJ file into indexed geometry.
+ *
+ * Faces may use `v`, `v/vt`, `v//vn` or `v/vt/vn` corners with absolute or relative (negative)
+ * indices and are fan-triangulated. Corners without a `vn` get smooth normals within their
+ * `s` smoothing group, or the flat face normal when smoothing is off. `l` polylines become a
+ * LINES primitive after the triangles. Texture coordinates are flipped to glTF's top-left origin.
+ *
+ * Faces and lines are grouped into one primitive per `o`/`g` name and `usemtl` material, in
+ * order of first use. Primitives carry the name and the material converted from the MTL file,
+ * with texture maps resolved against `files` (images uploaded with the OBJ). A model without
+ * names, materials or lines stays a single range, so the shape's color still tints it.
+ */
+export function parseObj(objText: string, mtlText?: string, files: ModelFiles = {}): Geometry {
   const materials: MaterialLibrary = mtlText ? parseMtl(mtlText) : new Map();
   const tempVertices: number[][] = [];
-  const faces: { indices: number[]; material: string | null }[] = [];
+  const tempUvs: number[][] = [];
+  const tempNormals: number[][] = [];
+  const faces: ObjFace[] = [];
+  const polylines: Omit<ObjFace, 'smoothingGroup'>[] = [];
   let currentMaterialName: string | null = null;
+  let objectName: string | undefined;
+  let groupName: string | undefined;
+  let smoothingGroup = 0;
+
+  const parseCorner = (token: string): ObjCorner => {
+    const [v, vt, vn] = token.split('/');
+    return {
+      v: resolveIndex(v, tempVertices.length),
+      vt: resolveIndex(vt, tempUvs.length),
+      vn: resolveIndex(vn, tempNormals.length),
+    };
+  };
 
   const lines = objText.split('\n');
 
@@ -28,70 +89,219 @@ export function parseObj(objText: string, mtlText?: string): Geometry {
 
     switch (type) {
       case 'v':
-        tempVertices.push(parts.map(parseFloat));
+        tempVertices.push(parts.slice(0, 3).map(parseFloat));
+        break;
+      case 'vt':
+        tempUvs.push([parseFloat(parts[0]) || 0, parseFloat(parts[1]) || 0]);
+        break;
+      case 'vn':
+        tempNormals.push(normalize(parts.slice(0, 3).map(parseFloat)));
         break;
       case 'usemtl':
-        currentMaterialName = parts[0];
+        currentMaterialName = parts.join(' ');
+        break;
+      case 'o':
+        objectName = parts.join(' ') || undefined;
+        groupName = undefined;
         break;
-      case 'f':
-        const faceIndices = parts
-          .map(part => parseInt(part.split('/')[0], 10) - 1); // Get vertex index
-        
-        // Triangulate faces with more than 3 vertices (fan triangulation)
-        for (let i = 1; i < faceIndices.length - 1; i++) {
-          faces.push({
-            indices: [faceIndices[0], faceIndices[i], faceIndices[i + 1]],
-            material: currentMaterialName,
-          });
-        }
+      case 'g':
+        // Several names put the faces in several groups; they are kept together under the joined name
+        groupName = parts.join(' ') || undefined;
         break;
+      case 's':
+        // "s off" and "s 0" both disable smoothing
+        smoothingGroup = parseInt(parts[0], 10) || 0;
+        break;
+      case 'f': {
+        const corners = parts.map(parseCorner);
+        if (corners.length < 3 || corners.some(corner => corner.v < 0)) break; // Skip malformed faces
+        faces.push({ corners, material: currentMaterialName, group: groupName ?? objectName, smoothingGroup });
+        break;
+      }
+      case 'l': {
+        const corners = parts.map(parseCorner).filter(corner => corner.v >= 0);
+        if (corners.length >= 2) polylines.push({ corners, material: currentMaterialName, group: groupName ?? objectName });
+        break;
+      }
     }
   }
 
+  // Accumulate area-weighted face normals per position and smoothing group
+  const faceNormals = faces.map(face => polygonNormal(face.corners.map(corner => tempVertices[corner.v])));
+  const smoothNormals = new Map<string, number[]>();
+  faces.forEach((face, f) => {
+    if (face.smoothingGroup === 0) return;
+    for (const corner of face.corners) {
+      if (corner.vn >= 0) continue;
+      const key = `${corner.v}/${face.smoothingGroup}`;
+      const sum = smoothNormals.get(key) || [0, 0, 0];
+      sum[0] += faceNormals[f][0];
+      sum[1] += faceNormals[f][1];
+      sum[2] += faceNormals[f][2];
+      smoothNormals.set(key, sum);
+    }
+  });
+
+  // Each material is converted once, sharing the images its texture maps resolve to
+  const textureUris = new Map<string, string | undefined>();
+  const resolveTexture = (file: string): string | undefined => {
+    if (!textureUris.has(file)) {
+      const data = findFile(files, file);
+      textureUris.set(file, data ? imageDataUri(data, file) : undefined);
+    }
+    return textureUris.get(file);
+  };
+  const pbrMaterials = new Map<string, Material>();
+  const getMaterial = (name: string | null): Material | undefined => {
+    const mtl = name !== null ? materials.get(name) : undefined;
+    if (!name || !mtl) return undefined;
+    if (!pbrMaterials.has(name)) pbrMaterials.set(name, mtlToMaterial(name, mtl, resolveTexture));
+    return pbrMaterials.get(name);
+  };
+
+  // Index lists per name and material, with every triangle group ahead of the line groups
+  const groups = new Map<string, { name?: string; material: string | null; mode: number; indices: number[] }>();
+  const getGroup = ({ group: name, material }: Omit<ObjFace, 'corners' | 'smoothingGroup'>, mode: number): number[] => {
+    const key = JSON.stringify([mode, name, material]);
+    let group = groups.get(key);
+    if (!group) {
+      group = { name, material, mode, indices: [] };
+      groups.set(key, group);
+    }
+    return group.indices;
+  };
+
   const positions: number[] = [];
   const normals: number[] = [];
-  const colors: number[] = [];
-  const indices: number[] = [];
+  const uvs: number[] = [];
+  const vertexMap = new Map<string, number>();
   let currentIndex = 0;
 
-  // Decide upfront if this model will have vertex colors based on MTL content
-  const hasMaterialColors = Array.from(materials.values()).some(m => m.kd);
+  const hasUvs = tempUvs.length > 0;
 
-  for (const face of faces) {
-    if (face.indices.some(isNaN) || face.indices.length !== 3) continue;
-    
-    const v1 = tempVertices[face.indices[0]];
-    const v2 = tempVertices[face.indices[1]];
-    const v3 = tempVertices[face.indices[2]];
+  // Corners that share position, UV and normal share one vertex
+  const addVertex = (corner: ObjCorner, normalKey: string, normal: number[]): number => {
+    const key = `${corner.v}/${corner.vt}/${normalKey}`;
+    const existing = vertexMap.get(key);
+    if (existing !== undefined) return existing;
 
-    if (!v1 || !v2 || !v3) continue; // Skip if indices are out of bounds
+    positions.push(...tempVertices[corner.v]);
+    normals.push(...normal);
+    if (hasUvs) {
+      const uv = tempUvs[corner.vt] || [0, 0];
+      uvs.push(uv[0], 1 - uv[1]);
+    }
+    vertexMap.set(key, currentIndex);
+    return currentIndex++;
+  };
 
-    const edge1 = subtract(v2, v1);
-    const edge2 = subtract(v3, v1);
-    const normal = normalize(cross(edge1, edge2));
+  faces.forEach((face, f) => {
+    const flatNormal = normalize(faceNormals[f]);
+    const faceIndices = face.corners.map(corner => {
+      if (corner.vn >= 0) return addVertex(corner, `n${corner.vn}`, tempNormals[corner.vn]);
+      if (face.smoothingGroup === 0) return addVertex(corner, `f${f}`, flatNormal);
+      const normal = normalize(smoothNormals.get(`${corner.v}/${face.smoothingGroup}`)!);
+      return addVertex(corner, `s${face.smoothingGroup}`, normal);
+    });
 
-    positions.push(...v1, ...v2, ...v3);
-    normals.push(...normal, ...normal, ...normal);
+    // Triangulate faces with more than 3 vertices (fan triangulation)
+    const groupIndices = getGroup(face, 4);
+    for (let i = 1; i < faceIndices.length - 1; i++) {
+      groupIndices.push(faceIndices[0], faceIndices[i], faceIndices[i + 1]);
+    }
+  });
 
-    if (hasMaterialColors) {
-      let faceColor: [number, number, number] = [0.8, 0.8, 0.8]; // Default gray
-      if (face.material) {
-        const material = materials.get(face.material);
-        if (material?.kd) {
-          faceColor = material.kd;
-        }
-      }
-      colors.push(...faceColor, ...faceColor, ...faceColor);
+  for (const polyline of polylines) {
+    // Lines have no surface, so corners without a vn just point up
+    const lineIndices = polyline.corners.map(corner => corner.vn >= 0
+      ? addVertex(corner, `n${corner.vn}`, tempNormals[corner.vn])
+      : addVertex(corner, 'l', [0, 1, 0]));
+    const groupIndices = getGroup(polyline, 1);
+    for (let i = 0; i < lineIndices.length - 1; i++) {
+      groupIndices.push(lineIndices[i], lineIndices[i + 1]);
     }
-    
-    indices.push(currentIndex, currentIndex + 1, currentIndex + 2);
-    currentIndex += 3;
   }
 
+  const indices: number[] = [];
+  const primitives: GeometryPrimitive[] = [];
+  const sortedGroups = Array.from(groups.values()).sort((a, b) => b.mode - a.mode);
+  for (const group of sortedGroups) {
+    const material = getMaterial(group.material);
+    primitives.push({
+      indicesOffset: indices.length,
+      indicesCount: group.indices.length,
+      texture: material?.baseColorTexture,
+      color: material?.baseColorFactor,
+      material,
+      mode: group.mode < 4 ? group.mode : undefined,
+      name: group.name,
+    });
+    for (const index of group.indices) indices.push(index);
+  }
+  const isSingleRange = primitives.length === 1 && !primitives[0].material && primitives[0].mode === undefined && !primitives[0].name;
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: createIndexArray(indices, currentIndex),
+    uvs: hasUvs ? new Float32Array(uvs) : undefined,
+    primitives: primitives.length > 0 && !isSingleRange ? primitives : undefined,
+  };
+}
+
+/**
+ * Parses an OBJ file into one child shape per `o`/`g` name, each with its own geometry
+ * holding that name's primitives. Faces outside any named group share an unnamed shape.
+ */
+export function parseObjShapes(objText: string, mtlText?: string, files: ModelFiles = {}): Shape[] {
+  const geometry = parseObj(objText, mtlText, files);
+  if (!geometry.primitives) {
+    return [{ geometry, translation: [0, 0, 0] }];
+  }
+
+  const byName = new Map<string | undefined, GeometryPrimitive[]>();
+  for (const primitive of geometry.primitives) {
+    const list = byName.get(primitive.name) || [];
+    list.push(primitive);
+    byName.set(primitive.name, list);
+  }
+  return Array.from(byName, ([name, primitives]): Shape => ({
+    geometry: extractPrimitives(geometry, primitives),
+    translation: [0, 0, 0],
+    name,
+  }));
+}
+
+// Copies the given primitives into a geometry of their own, keeping only the vertices they use
+function extractPrimitives(geometry: Geometry, primitives: GeometryPrimitive[]): Geometry {
+  const remap = new Map<number, number>();
+  const indices: number[] = [];
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+
+  const extracted = primitives.map(primitive => {
+    const indicesOffset = indices.length;
+    for (let i = primitive.indicesOffset; i < primitive.indicesOffset + primitive.indicesCount; i++) {
+      const v = geometry.indices[i];
+      let target = remap.get(v);
+      if (target === undefined) {
+        target = remap.size;
+        remap.set(v, target);
+        positions.push(...geometry.positions.subarray(v * 3, v * 3 + 3));
+        normals.push(...geometry.normals.subarray(v * 3, v * 3 + 3));
+        if (geometry.uvs) uvs.push(...geometry.uvs.subarray(v * 2, v * 2 + 2));
+      }
+      indices.push(target);
+    }
+    return { ...primitive, indicesOffset, indicesCount: indices.length - indicesOffset };
+  });
+
   return {
     positions: new Float32Array(positions),
     normals: new Float32Array(normals),
-    indices: new Uint16Array(indices),
-    colors: hasMaterialColors ? new Float32Array(colors) : undefined,
+    indices: createIndexArray(indices, remap.size),
+    uvs: geometry.uvs ? new Float32Array(uvs) : undefined,
+    primitives: extracted,
   };
 }
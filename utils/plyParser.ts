@@ -1,5 +1,5 @@
 
-import type { Geometry } from './geometry';
+import { createIndexArray, type Geometry } from './geometry';
 
 // Vector math helpers
 const subtract = (a: number[], b: number[]): number[] => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
@@ -13,78 +13,197 @@ const normalize = (v: number[]): number[] => {
   return len > 0.00001 ? [v[0] / len, v[1] / len, v[2] / len] : [0, 0, 0];
 };
 
-export function parsePly(plyText: string): Geometry {
-  const lines = plyText.split('\n');
-  let headerEnd = 0;
-  let vertexCount = 0;
-  let faceCount = 0;
-  
-  const propertyMap: { [key: string]: number } = {};
-  let currentPropertyIndex = 0;
-  let readingVerts = false;
+// Byte size of each PLY scalar type, including the sized aliases (int8, float32 ...)
+const SCALAR_SIZES: { [type: string]: number } = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8,
+};
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  countType?: string; // Set for list properties, e.g. "list uchar int vertex_indices"
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+type PlyFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+// Reads one scalar of the given type from the body, whatever its encoding
+type ScalarReader = (type: string) => number;
+
+function createBinaryReader(buffer: ArrayBuffer, offset: number, littleEndian: boolean): { read: ScalarReader; skip: (bytes: number) => void } {
+  const view = new DataView(buffer);
+  const read = (type: string): number => {
+    const size = SCALAR_SIZES[type];
+    if (offset + size > view.byteLength) {
+      throw new Error('PLY file ends before all declared elements were read.');
+    }
+    let value: number;
+    switch (type) {
+      case 'char': case 'int8': value = view.getInt8(offset); break;
+      case 'uchar': case 'uint8': value = view.getUint8(offset); break;
+      case 'short': case 'int16': value = view.getInt16(offset, littleEndian); break;
+      case 'ushort': case 'uint16': value = view.getUint16(offset, littleEndian); break;
+      case 'int': case 'int32': value = view.getInt32(offset, littleEndian); break;
+      case 'uint': case 'uint32': value = view.getUint32(offset, littleEndian); break;
+      case 'float': case 'float32': value = view.getFloat32(offset, littleEndian); break;
+      default: value = view.getFloat64(offset, littleEndian); break;
+    }
+    offset += size;
+    return value;
+  };
+  return { read, skip: (bytes: number) => { offset += bytes; } };
+}
+
+function createAsciiReader(body: string): ScalarReader {
+  const tokens = body.split(/\s+/).filter(token => token !== '');
+  let next = 0;
+  return () => {
+    if (next >= tokens.length) {
+      throw new Error('PLY file ends before all declared elements were read.');
+    }
+    return parseFloat(tokens[next++]);
+  };
+}
+
+// Offset just past the "end_header" line, or -1 if the header never ends
+function findHeaderEnd(data: string | Uint8Array): number {
+  const at = (i: number) => typeof data === 'string' ? data.charCodeAt(i) : data[i];
+  const marker = 'end_header';
+  for (let i = 0; i + marker.length <= data.length; i++) {
+    let j = 0;
+    while (j < marker.length && at(i + j) === marker.charCodeAt(j)) j++;
+    if (j < marker.length) continue;
+    // The line ends with \n, or \r\n in files written on Windows
+    let end = i + marker.length;
+    while (end < data.length && at(end) !== 10) end++;
+    return Math.min(end + 1, data.length);
+  }
+  return -1;
+}
+
+// Integer colors are stored 0-255 (or 0-65535), float colors are already 0-1
+const colorScale = (type: string): number => {
+  if (type.startsWith('float') || type === 'double') return 1;
+  return SCALAR_SIZES[type] === 2 ? 65535 : 255;
+};
+
+/**
+ * Parses an ASCII or binary (little- or big-endian) PLY file. Binary files must be
+ * passed as an ArrayBuffer; a string is read as ASCII. Vertex positions and colors and
+ * the face index lists are read, every other element is skipped.
+ */
+export function parsePly(data: string | ArrayBuffer): Geometry {
+  // The header is always ASCII, so only it is decoded from binary files
+  const bytes = typeof data === 'string' ? null : new Uint8Array(data);
+  const headerEnd = findHeaderEnd(bytes || data as string);
+  const header = bytes ? new TextDecoder('latin1').decode(bytes.subarray(0, headerEnd)) : (data as string).slice(0, headerEnd);
+  if (headerEnd < 0 || !/^\s*ply/.test(header)) {
+    throw new Error('Not a PLY file: missing "ply" magic number or "end_header".');
+  }
 
   // --- Parse header ---
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    const parts = line.split(/\s+/);
-
-    if (parts[0] === 'element') {
-      if (parts[1] === 'vertex') {
-        vertexCount = parseInt(parts[2]);
-        readingVerts = true;
-      } else if (parts[1] === 'face') {
-        faceCount = parseInt(parts[2]);
-        readingVerts = false;
-      } else {
-        readingVerts = false;
+  let format: PlyFormat = 'ascii';
+  const elements: PlyElement[] = [];
+  for (const line of header.split('\n')) {
+    const parts = line.trim().split(/\s+/);
+
+    if (parts[0] === 'format') {
+      if (parts[1] !== 'ascii' && parts[1] !== 'binary_little_endian' && parts[1] !== 'binary_big_endian') {
+        throw new Error(`Unsupported PLY format "${parts[1]}".`);
       }
-    } else if (parts[0] === 'property' && readingVerts) {
-      // Map properties like 'x', 'y', 'z', 'red', 'green', 'blue' to their index in a vertex line
-      propertyMap[parts[2]] = currentPropertyIndex++;
-    } else if (parts[0] === 'end_header') {
-      headerEnd = i + 1;
-      break;
+      format = parts[1];
+    } else if (parts[0] === 'element') {
+      elements.push({ name: parts[1], count: parseInt(parts[2], 10), properties: [] });
+    } else if (parts[0] === 'property' && elements.length > 0) {
+      const property: PlyProperty = parts[1] === 'list'
+        ? { name: parts[4], type: parts[3], countType: parts[2] }
+        : { name: parts[2], type: parts[1] };
+      for (const type of [property.type, property.countType]) {
+        if (type !== undefined && SCALAR_SIZES[type] === undefined) {
+          throw new Error(`Unsupported PLY property type "${type}" for "${property.name}".`);
+        }
+      }
+      elements[elements.length - 1].properties.push(property);
     }
   }
 
-  const x_idx = propertyMap['x'];
-  const y_idx = propertyMap['y'];
-  const z_idx = propertyMap['z'];
-  const r_idx = propertyMap['red'];
-  const g_idx = propertyMap['green'];
-  const b_idx = propertyMap['blue'];
+  const vertexElement = elements.find(element => element.name === 'vertex');
+  const vertexProperties = vertexElement?.properties.map(property => property.name) || [];
+  const x_idx = vertexProperties.indexOf('x');
+  const y_idx = vertexProperties.indexOf('y');
+  const z_idx = vertexProperties.indexOf('z');
+  const r_idx = vertexProperties.indexOf('red');
+  const g_idx = vertexProperties.indexOf('green');
+  const b_idx = vertexProperties.indexOf('blue');
 
-  if (x_idx === undefined || y_idx === undefined || z_idx === undefined) {
+  if (x_idx < 0 || y_idx < 0 || z_idx < 0) {
     throw new Error('PLY file must contain x, y, and z vertex properties.');
   }
-  const hasColors = r_idx !== undefined && g_idx !== undefined && b_idx !== undefined;
+  const hasColors = r_idx >= 0 && g_idx >= 0 && b_idx >= 0;
+  const colorScales = hasColors ? [r_idx, g_idx, b_idx].map(i => colorScale(vertexElement!.properties[i].type)) : [];
 
-  const tempVertices: number[][] = [];
-  const tempColors: number[][] = [];
-  
-  // --- Parse vertices ---
-  for (let i = 0; i < vertexCount; i++) {
-    const parts = lines[headerEnd + i].trim().split(/\s+/).map(parseFloat);
-    tempVertices.push([parts[x_idx], parts[y_idx], parts[z_idx]]);
-    if (hasColors) {
-      // Normalize colors from 0-255 range to 0-1
-      tempColors.push([parts[r_idx] / 255.0, parts[g_idx] / 255.0, parts[b_idx] / 255.0]);
+  let read: ScalarReader;
+  let skip: ((bytes: number) => void) | undefined;
+  if (format === 'ascii') {
+    read = createAsciiReader(bytes ? new TextDecoder().decode(bytes.subarray(headerEnd)) : (data as string).slice(headerEnd));
+  } else {
+    if (!bytes) {
+      throw new Error(`PLY file is ${format}; pass it as an ArrayBuffer instead of text.`);
     }
+    ({ read, skip } = createBinaryReader(bytes.buffer as ArrayBuffer, bytes.byteOffset + headerEnd, format === 'binary_little_endian'));
   }
 
+  const tempVertices: number[][] = [];
+  const tempColors: number[][] = [];
   const faces: number[][] = [];
-  // --- Parse faces ---
-  const faceDataStart = headerEnd + vertexCount;
-  for (let i = 0; i < faceCount; i++) {
-    const line = lines[faceDataStart + i];
-    if (!line) continue;
-    
-    const parts = line.trim().split(/\s+/).map(p => parseInt(p, 10));
-    const numVerts = parts.shift();
-    if (numVerts && numVerts >= 3) {
-      // Triangulate faces with more than 3 vertices (fan triangulation)
-      for (let j = 1; j < parts.length - 1; j++) {
-        faces.push([parts[0], parts[j], parts[j + 1]]);
+
+  // --- Parse elements in the order they are declared ---
+  for (const element of elements) {
+    const isVertex = element === vertexElement;
+    const isFace = element.name === 'face';
+
+    // Unknown binary elements without lists have a fixed size and are skipped in one step
+    if (!isVertex && !isFace && skip && element.properties.every(property => !property.countType)) {
+      skip(element.count * element.properties.reduce((size, property) => size + SCALAR_SIZES[property.type], 0));
+      continue;
+    }
+
+    for (let i = 0; i < element.count; i++) {
+      const values: number[] = [];
+      let faceIndices: number[] | undefined;
+      for (const property of element.properties) {
+        if (!property.countType) {
+          values.push(read(property.type));
+          continue;
+        }
+        values.push(NaN); // Keeps scalar values at their property index
+        const count = read(property.countType);
+        const list: number[] = [];
+        for (let j = 0; j < count; j++) list.push(read(property.type));
+        if (isFace && (property.name === 'vertex_indices' || property.name === 'vertex_index')) {
+          faceIndices = list;
+        }
+      }
+
+      if (isVertex) {
+        tempVertices.push([values[x_idx], values[y_idx], values[z_idx]]);
+        if (hasColors) {
+          // Normalize colors to the 0-1 range
+          tempColors.push([values[r_idx] / colorScales[0], values[g_idx] / colorScales[1], values[b_idx] / colorScales[2]]);
+        }
+      } else if (faceIndices && faceIndices.length >= 3) {
+        // Triangulate faces with more than 3 vertices (fan triangulation)
+        for (let j = 1; j < faceIndices.length - 1; j++) {
+          faces.push([faceIndices[0], faceIndices[j], faceIndices[j + 1]]);
+        }
       }
     }
   }
@@ -125,7 +244,7 @@ export function parsePly(plyText: string): Geometry {
   return {
     positions: new Float32Array(positions),
     normals: new Float32Array(normals),
-    indices: new Uint16Array(indices),
+    indices: createIndexArray(indices, currentIndex),
     colors: hasColors && colors.length > 0 ? new Float32Array(colors) : undefined,
   };
 }
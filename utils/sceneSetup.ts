@@ -0,0 +1,113 @@
+
+import type { Shape } from './gltfBuilder';
+
+// Punctual light written through KHR_lights_punctual. Lights shine along the node's -Z axis.
+export interface Light {
+  type: 'directional' | 'point' | 'spot';
+  name?: string;
+  color?: [number, number, number]; // Linear RGB, defaults to white
+  intensity?: number; // Lux for directional lights, candela for point and spot lights
+  range?: number; // Point and spot lights only; unlimited when omitted
+  innerConeAngle?: number; // Spot lights only, radians
+  outerConeAngle?: number; // Spot lights only, radians
+}
+
+// Perspective camera looking along the node's -Z axis with +Y up
+export interface Camera {
+  name?: string;
+  yfov: number; // Vertical field of view in radians
+  znear: number;
+  zfar?: number; // Infinite projection when omitted
+  aspectRatio?: number; // Viewer picks one from the canvas when omitted
+}
+
+type Vec3 = [number, number, number];
+type Quaternion = [number, number, number, number];
+
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+  return len > 0.00001 ? [v[0] / len, v[1] / len, v[2] / len] : [0, 0, 0];
+};
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+/**
+ * Computes the rotation that points a node's -Z axis from `eye` towards `target`,
+ * keeping its +Y axis as close to world up as possible.
+ */
+export function lookAtRotation(eye: Vec3, target: Vec3): Quaternion {
+  const z = normalize([eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]]);
+  // Fall back to +Z as the up reference when looking straight up or down
+  const up: Vec3 = Math.abs(z[1]) > 0.999 ? [0, 0, 1] : [0, 1, 0];
+  const x = normalize(cross(up, z));
+  const y = cross(z, x);
+
+  // Rotation matrix (columns x, y, z) to quaternion
+  const trace = x[0] + y[1] + z[2];
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    return [(y[2] - z[1]) * s, (z[0] - x[2]) * s, (x[1] - y[0]) * s, 0.25 / s];
+  } else if (x[0] > y[1] && x[0] > z[2]) {
+    const s = 2 * Math.sqrt(1 + x[0] - y[1] - z[2]);
+    return [0.25 * s, (y[0] + x[1]) / s, (z[0] + x[2]) / s, (y[2] - z[1]) / s];
+  } else if (y[1] > z[2]) {
+    const s = 2 * Math.sqrt(1 + y[1] - x[0] - z[2]);
+    return [(y[0] + x[1]) / s, 0.25 * s, (z[1] + y[2]) / s, (z[0] - x[2]) / s];
+  }
+  const s = 2 * Math.sqrt(1 + z[2] - x[0] - y[1]);
+  return [(z[0] + x[2]) / s, (z[1] + y[2]) / s, 0.25 * s, (x[1] - y[0]) / s];
+}
+
+// Direction from a point towards the sky at the given azimuth (from +X towards +Z) and elevation
+const skyDirection = (azimuth: number, elevation: number): Vec3 => [
+  Math.cos(elevation) * Math.cos(azimuth),
+  Math.sin(elevation),
+  Math.cos(elevation) * Math.sin(azimuth),
+];
+
+/**
+ * Creates a sun and an overview camera framing the given bounding box.
+ * @param min - Minimum corner of the area to frame.
+ * @param max - Maximum corner of the area to frame.
+ * @returns Shapes carrying the light and camera, ready to add to a scene.
+ */
+export function createSunAndCamera(min: Vec3, max: Vec3): Shape[] {
+  const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const radius = Math.max(0.5 * Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]), 1);
+
+  // Afternoon sun from the south-west, high enough to give readable shadows
+  const sunDirection = skyDirection(Math.PI * 0.75, Math.PI * 0.3);
+  const sunPosition: Vec3 = [
+    center[0] + sunDirection[0] * radius * 2,
+    center[1] + sunDirection[1] * radius * 2,
+    center[2] + sunDirection[2] * radius * 2,
+  ];
+
+  // Elevated three-quarter view, backed off until the bounding sphere fits the field of view
+  const yfov = Math.PI / 4;
+  const distance = (radius / Math.sin(yfov / 2)) * 1.1;
+  const viewDirection = skyDirection(Math.PI * 0.25, Math.PI * 0.2);
+  const cameraPosition: Vec3 = [
+    center[0] + viewDirection[0] * distance,
+    center[1] + viewDirection[1] * distance,
+    center[2] + viewDirection[2] * distance,
+  ];
+
+  return [
+    {
+      name: 'Sun',
+      translation: sunPosition,
+      rotation: lookAtRotation(sunPosition, center),
+      light: { type: 'directional', name: 'Sun', color: [1.0, 0.96, 0.9], intensity: 3 },
+    },
+    {
+      name: 'Overview Camera',
+      translation: cameraPosition,
+      rotation: lookAtRotation(cameraPosition, center),
+      camera: { name: 'Overview Camera', yfov, znear: distance / 100, zfar: distance * 10 },
+    },
+  ];
+}
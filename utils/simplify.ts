@@ -0,0 +1,312 @@
+
+import { createIndexArray, isTriangleList, type Geometry, type GeometryPrimitive } from './geometry';
+import { optimizeVertexFetch, primitiveRanges, weldVertices } from './meshOptimizer';
+
+export interface SimplifyOptions {
+  ratio: number;     // Fraction of triangles to keep, 0..1
+  maxError?: number; // Stop once the collapse error exceeds this fraction of the mesh's bounding box diagonal
+}
+
+// Border edges are kept in place by planes perpendicular to the surface, weighted heavier than faces
+const BORDER_WEIGHT = 10;
+
+// Vertex classification controlling which collapses are allowed
+const MANIFOLD = 0; // Interior vertex, may collapse into any neighbour
+const BORDER = 1;   // On an open edge, may only slide along it
+const LOCKED = 2;   // Attribute seam, material boundary or non-manifold, never moves
+
+/**
+ * Reduces the triangle count of a geometry by quadric-error edge collapses.
+ *
+ * Vertices only ever collapse onto one of their neighbours, so every surviving vertex
+ * keeps its original normal, color, UV and tangent. Vertices on UV or normal seams and
+ * on boundaries between primitives are locked, which preserves texture mapping and
+ * material groups at the cost of less reduction on heavily seamed meshes.
+ * @returns A new geometry; the ratio is a target and may not be reached.
+ */
+export function simplifyGeometry(geometry: Geometry, options: SimplifyOptions): Geometry {
+  const source = weldVertices(geometry);
+  const { positions } = source;
+  const vertexCount = positions.length / 3;
+
+  // Triangles and the primitive each one belongs to
+  const ranges = primitiveRanges(source);
+  const tris: number[] = [];
+  const triPrimitive: number[] = [];
+  ranges.forEach((range, p) => {
+    if (!isTriangleList(range)) return;
+    for (let i = range.indicesOffset; i + 2 < range.indicesOffset + range.indicesCount; i += 3) {
+      tris.push(source.indices[i], source.indices[i + 1], source.indices[i + 2]);
+      triPrimitive.push(p);
+    }
+  });
+  const triCount = tris.length / 3;
+  const deadTri = new Uint8Array(triCount);
+  const vertexTris: number[][] = Array.from({ length: vertexCount }, () => []);
+  for (let t = 0; t < triCount; t++) {
+    for (let c = 0; c < 3; c++) vertexTris[tris[t * 3 + c]].push(t);
+  }
+
+  // --- Classify vertices ---
+  const kind = new Uint8Array(vertexCount);
+
+  // After welding, vertices that still share a position differ in another attribute
+  const positionCount = new Map<string, number>();
+  const positionKey = (v: number) => `${positions[v * 3]},${positions[v * 3 + 1]},${positions[v * 3 + 2]}`;
+  for (let v = 0; v < vertexCount; v++) {
+    const key = positionKey(v);
+    positionCount.set(key, (positionCount.get(key) ?? 0) + 1);
+  }
+
+  const edgeKey = (a: number, b: number) => (a < b ? a * vertexCount + b : b * vertexCount + a);
+  const edgeUse = new Map<number, number>();
+  for (let t = 0; t < triCount; t++) {
+    for (let c = 0; c < 3; c++) {
+      const key = edgeKey(tris[t * 3 + c], tris[t * 3 + (c + 1) % 3]);
+      edgeUse.set(key, (edgeUse.get(key) ?? 0) + 1);
+    }
+  }
+  const borderEdges = new Set<number>();
+  const borderEdgeCount = new Uint32Array(vertexCount);
+  edgeUse.forEach((count, key) => {
+    const a = Math.floor(key / vertexCount), b = key % vertexCount;
+    if (count === 1) {
+      borderEdges.add(key);
+      borderEdgeCount[a]++;
+      borderEdgeCount[b]++;
+    } else if (count > 2) {
+      kind[a] = kind[b] = LOCKED;
+    }
+  });
+
+  // Vertices of point and line primitives are kept where they are
+  for (const range of ranges) {
+    if (isTriangleList(range)) continue;
+    for (let i = range.indicesOffset; i < range.indicesOffset + range.indicesCount; i++) kind[source.indices[i]] = LOCKED;
+  }
+
+  for (let v = 0; v < vertexCount; v++) {
+    if (kind[v] === LOCKED || vertexTris[v].length === 0) continue;
+    const primitive = triPrimitive[vertexTris[v][0]];
+    if (positionCount.get(positionKey(v))! > 1 || vertexTris[v].some(t => triPrimitive[t] !== primitive)) {
+      kind[v] = LOCKED;
+    } else if (borderEdgeCount[v] === 2) {
+      kind[v] = BORDER;
+    } else if (borderEdgeCount[v] > 0) {
+      kind[v] = LOCKED; // Corner where several borders meet
+    }
+  }
+
+  // --- Quadrics ---
+  // Symmetric 4x4 matrices stored as [aa, ab, ac, ad, bb, bc, bd, cc, cd, dd], plus the
+  // summed plane weight so errors can be compared as mean squared distances.
+  const quadrics = new Float64Array(vertexCount * 10);
+  const weights = new Float64Array(vertexCount);
+  const addPlane = (v: number, a: number, b: number, c: number, d: number, w: number) => {
+    const o = v * 10;
+    quadrics[o] += w * a * a; quadrics[o + 1] += w * a * b; quadrics[o + 2] += w * a * c; quadrics[o + 3] += w * a * d;
+    quadrics[o + 4] += w * b * b; quadrics[o + 5] += w * b * c; quadrics[o + 6] += w * b * d;
+    quadrics[o + 7] += w * c * c; quadrics[o + 8] += w * c * d;
+    quadrics[o + 9] += w * d * d;
+    weights[v] += w;
+  };
+  const quadricError = (v: number, x: number, y: number, z: number) => {
+    const o = v * 10;
+    return quadrics[o] * x * x + 2 * quadrics[o + 1] * x * y + 2 * quadrics[o + 2] * x * z + 2 * quadrics[o + 3] * x
+      + quadrics[o + 4] * y * y + 2 * quadrics[o + 5] * y * z + 2 * quadrics[o + 6] * y
+      + quadrics[o + 7] * z * z + 2 * quadrics[o + 8] * z
+      + quadrics[o + 9];
+  };
+
+  const faceNormal = (a: number, b: number, c: number): [number, number, number] => {
+    const e1x = positions[b * 3] - positions[a * 3], e1y = positions[b * 3 + 1] - positions[a * 3 + 1], e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3], e2y = positions[c * 3 + 1] - positions[a * 3 + 1], e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+    return [e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x];
+  };
+
+  for (let t = 0; t < triCount; t++) {
+    const [a, b, c] = [tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]];
+    const n = faceNormal(a, b, c);
+    const len = Math.hypot(n[0], n[1], n[2]);
+    if (len === 0) continue;
+    const nx = n[0] / len, ny = n[1] / len, nz = n[2] / len;
+    const d = -(nx * positions[a * 3] + ny * positions[a * 3 + 1] + nz * positions[a * 3 + 2]);
+    const area = len / 2;
+    for (const v of [a, b, c]) addPlane(v, nx, ny, nz, d, area);
+
+    // Planes through border edges, perpendicular to the face, stop borders from shrinking
+    for (let e = 0; e < 3; e++) {
+      const p = tris[t * 3 + e], q = tris[t * 3 + (e + 1) % 3];
+      if (!borderEdges.has(edgeKey(p, q))) continue;
+      const ex = positions[q * 3] - positions[p * 3], ey = positions[q * 3 + 1] - positions[p * 3 + 1], ez = positions[q * 3 + 2] - positions[p * 3 + 2];
+      let bx = ey * nz - ez * ny, by = ez * nx - ex * nz, bz = ex * ny - ey * nx;
+      const bLen = Math.hypot(bx, by, bz);
+      if (bLen === 0) continue;
+      bx /= bLen; by /= bLen; bz /= bLen;
+      const bd = -(bx * positions[p * 3] + by * positions[p * 3 + 1] + bz * positions[p * 3 + 2]);
+      const w = (ex * ex + ey * ey + ez * ez) * BORDER_WEIGHT;
+      addPlane(p, bx, by, bz, bd, w);
+      addPlane(q, bx, by, bz, bd, w);
+    }
+  }
+
+  // --- Collapse queue ---
+  // A binary min-heap of half-edge collapses. Entries go stale when either endpoint
+  // changes, which the version stamps detect when the entry is popped.
+  interface Collapse { cost: number; from: number; to: number; fromVersion: number; toVersion: number }
+  const heap: Collapse[] = [];
+  const version = new Uint32Array(vertexCount);
+  const deadVertex = new Uint8Array(vertexCount);
+
+  const heapPush = (item: Collapse) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].cost <= heap[i].cost) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const heapPop = (): Collapse => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1, r = l + 1;
+        let smallest = i;
+        if (l < heap.length && heap[l].cost < heap[smallest].cost) smallest = l;
+        if (r < heap.length && heap[r].cost < heap[smallest].cost) smallest = r;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  const canMove = (from: number, to: number) =>
+    kind[from] === MANIFOLD || (kind[from] === BORDER && borderEdges.has(edgeKey(from, to)));
+
+  const collapseCost = (from: number, to: number) => {
+    const x = positions[to * 3], y = positions[to * 3 + 1], z = positions[to * 3 + 2];
+    const error = quadricError(from, x, y, z) + quadricError(to, x, y, z);
+    return Math.max(0, error) / Math.max(weights[from] + weights[to], 1e-12);
+  };
+
+  const pushEdge = (a: number, b: number) => {
+    const candidates: [number, number][] = [];
+    if (canMove(a, b)) candidates.push([a, b]);
+    if (canMove(b, a)) candidates.push([b, a]);
+    let best: Collapse | null = null;
+    for (const [from, to] of candidates) {
+      const cost = collapseCost(from, to);
+      if (!best || cost < best.cost) best = { cost, from, to, fromVersion: version[from], toVersion: version[to] };
+    }
+    if (best) heapPush(best);
+  };
+
+  const neighbours = (v: number): Set<number> => {
+    const result = new Set<number>();
+    for (const t of vertexTris[v]) {
+      if (deadTri[t]) continue;
+      for (let c = 0; c < 3; c++) result.add(tris[t * 3 + c]);
+    }
+    result.delete(v);
+    return result;
+  };
+
+  edgeUse.forEach((_, key) => pushEdge(Math.floor(key / vertexCount), key % vertexCount));
+
+  // Rejects collapses that would pinch the surface or fold triangles over
+  const isValidCollapse = (from: number, to: number): boolean => {
+    const fromNeighbours = neighbours(from);
+    const shared = [...neighbours(to)].filter(n => fromNeighbours.has(n)).length;
+    const sharedTris = vertexTris[from].filter(t => !deadTri[t] && tris.slice(t * 3, t * 3 + 3).includes(to)).length;
+    if (shared > sharedTris) return false;
+
+    for (const t of vertexTris[from]) {
+      if (deadTri[t]) continue;
+      const corners = [tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]];
+      if (corners.includes(to)) continue;
+      const before = faceNormal(corners[0], corners[1], corners[2]);
+      const moved = corners.map(c => (c === from ? to : c));
+      const after = faceNormal(moved[0], moved[1], moved[2]);
+      const dot = before[0] * after[0] + before[1] * after[1] + before[2] * after[2];
+      const lenProduct = Math.hypot(before[0], before[1], before[2]) * Math.hypot(after[0], after[1], after[2]);
+      if (lenProduct === 0 || dot < 0.25 * lenProduct) return false;
+    }
+    return true;
+  };
+
+  // --- Collapse edges until the target is reached ---
+  let liveTris = triCount;
+  const targetTris = Math.max(1, Math.floor(triCount * Math.max(0, Math.min(1, options.ratio))));
+  let maxCost = Infinity;
+  if (options.maxError !== undefined) {
+    let min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+    for (let v = 0; v < vertexCount; v++) {
+      min = min.map((m, c) => Math.min(m, positions[v * 3 + c]));
+      max = max.map((m, c) => Math.max(m, positions[v * 3 + c]));
+    }
+    const diagonal = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+    maxCost = (options.maxError * diagonal) ** 2;
+  }
+
+  while (liveTris > targetTris && heap.length > 0) {
+    const { cost, from, to, fromVersion, toVersion } = heapPop();
+    if (deadVertex[from] || deadVertex[to] || version[from] !== fromVersion || version[to] !== toVersion) continue;
+    if (cost > maxCost) break;
+    if (!isValidCollapse(from, to)) continue;
+    // Closed meshes shrink to nothing once their last edge collapses
+    const removed = vertexTris[from].filter(t => !deadTri[t] && tris.slice(t * 3, t * 3 + 3).includes(to)).length;
+    if (removed >= liveTris) continue;
+
+    // Border edges of `from` now end at `to`
+    if (kind[from] === BORDER) {
+      for (const n of neighbours(from)) {
+        if (n !== to && borderEdges.has(edgeKey(from, n))) borderEdges.add(edgeKey(to, n));
+      }
+    }
+
+    for (const t of vertexTris[from]) {
+      if (deadTri[t]) continue;
+      const base = t * 3;
+      if (tris[base] === to || tris[base + 1] === to || tris[base + 2] === to) {
+        deadTri[t] = 1;
+        liveTris--;
+      } else {
+        for (let c = 0; c < 3; c++) if (tris[base + c] === from) tris[base + c] = to;
+        vertexTris[to].push(t);
+      }
+    }
+    vertexTris[from] = [];
+    deadVertex[from] = 1;
+    for (let i = 0; i < 10; i++) quadrics[to * 10 + i] += quadrics[from * 10 + i];
+    weights[to] += weights[from];
+    version[to]++;
+
+    for (const n of neighbours(to)) pushEdge(to, n);
+  }
+
+  // --- Rebuild primitives from the surviving triangles ---
+  const indices: number[] = [];
+  const primitives: GeometryPrimitive[] = ranges.map((range, p) => {
+    const start = indices.length;
+    if (!isTriangleList(range)) {
+      for (let i = range.indicesOffset; i < range.indicesOffset + range.indicesCount; i++) indices.push(source.indices[i]);
+    }
+    for (let t = 0; t < triCount; t++) {
+      if (!deadTri[t] && triPrimitive[t] === p) indices.push(tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]);
+    }
+    return { ...range, indicesOffset: start, indicesCount: indices.length - start };
+  });
+
+  return optimizeVertexFetch({
+    ...source,
+    indices: createIndexArray(indices, vertexCount),
+    primitives: source.primitives ? primitives : undefined,
+  });
+}
@@ -0,0 +1,25 @@
+
+import { describe, expect, it } from 'vitest';
+import { generateTangents } from './tangents';
+
+describe('generateTangents', () => {
+  it('reads triangles only from triangle primitives when lines are mixed in', () => {
+    // A unit quad facing +Z with u along +X, and a line primitive ahead of it in the index buffer
+    const geometry = {
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1]),
+      normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0]),
+      uvs: new Float32Array([0, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]),
+      indices: new Uint16Array([4, 5, 0, 1, 2, 0, 2, 3]),
+      primitives: [
+        { indicesOffset: 0, indicesCount: 2, mode: 1 },
+        { indicesOffset: 2, indicesCount: 6 },
+      ],
+    };
+
+    const tangents = generateTangents(geometry);
+
+    for (let v = 0; v < 4; v++) {
+      expect(Array.from(tangents.subarray(v * 4, v * 4 + 4))).toEqual([1, 0, 0, 1]);
+    }
+  });
+});
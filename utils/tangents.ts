@@ -0,0 +1,114 @@
+
+import { isTriangleList, type Geometry } from './geometry';
+import { primitiveRanges } from './meshOptimizer';
+
+/**
+ * Generates per-vertex tangents (VEC4, w = bitangent sign) for normal mapping.
+ *
+ * Follows the MikkTSpace conventions that glTF viewers expect: face tangents are
+ * projected onto each vertex normal, normalized and accumulated with corner-angle
+ * weights, and the handedness is taken in OpenGL's v-up UV space. Unlike full
+ * MikkTSpace, vertices are never split, so meshes must already be split at UV seams.
+ * Vertices that get no usable UV gradient receive an arbitrary tangent perpendicular
+ * to their normal. Only triangle-list primitives contribute; point and line ranges are skipped.
+ */
+export function generateTangents(geometry: Pick<Geometry, 'positions' | 'normals' | 'uvs' | 'indices' | 'primitives'>): Float32Array {
+  const { positions, normals, uvs, indices } = geometry;
+  const vertexCount = positions.length / 3;
+  const tangents = new Float32Array(vertexCount * 4);
+  if (!uvs) return tangents;
+
+  const tan = new Float32Array(vertexCount * 3);
+  const bitan = new Float32Array(vertexCount * 3);
+
+  const corner = [0, 0, 0];
+  for (const range of primitiveRanges(geometry).filter(isTriangleList)) {
+    const end = range.indicesOffset + range.indicesCount;
+    for (let f = range.indicesOffset; f + 2 < end; f += 3) {
+      const i0 = indices[f], i1 = indices[f + 1], i2 = indices[f + 2];
+
+      const e1x = positions[i1 * 3] - positions[i0 * 3];
+      const e1y = positions[i1 * 3 + 1] - positions[i0 * 3 + 1];
+      const e1z = positions[i1 * 3 + 2] - positions[i0 * 3 + 2];
+      const e2x = positions[i2 * 3] - positions[i0 * 3];
+      const e2y = positions[i2 * 3 + 1] - positions[i0 * 3 + 1];
+      const e2z = positions[i2 * 3 + 2] - positions[i0 * 3 + 2];
+
+      // glTF UVs have v pointing down the image; flip it to work in v-up space
+      const du1 = uvs[i1 * 2] - uvs[i0 * 2];
+      const dv1 = -(uvs[i1 * 2 + 1] - uvs[i0 * 2 + 1]);
+      const du2 = uvs[i2 * 2] - uvs[i0 * 2];
+      const dv2 = -(uvs[i2 * 2 + 1] - uvs[i0 * 2 + 1]);
+
+      const det = du1 * dv2 - du2 * dv1;
+      if (Math.abs(det) < 1e-12) continue; // Degenerate UV mapping, no usable gradient
+      const r = 1 / det;
+
+      const sx = (e1x * dv2 - e2x * dv1) * r, sy = (e1y * dv2 - e2y * dv1) * r, sz = (e1z * dv2 - e2z * dv1) * r;
+      const tx = (e2x * du1 - e1x * du2) * r, ty = (e2y * du1 - e1y * du2) * r, tz = (e2z * du1 - e1z * du2) * r;
+
+      corner[0] = i0; corner[1] = i1; corner[2] = i2;
+      for (let c = 0; c < 3; c++) {
+        const v = corner[c];
+        const prev = corner[(c + 2) % 3], next = corner[(c + 1) % 3];
+        const weight = cornerAngle(positions, v, next, prev);
+        if (weight === 0) continue;
+
+        const nx = normals[v * 3], ny = normals[v * 3 + 1], nz = normals[v * 3 + 2];
+        accumulateProjected(tan, v, sx, sy, sz, nx, ny, nz, weight);
+        accumulateProjected(bitan, v, tx, ty, tz, nx, ny, nz, weight);
+      }
+    }
+  }
+
+  for (let v = 0; v < vertexCount; v++) {
+    const nx = normals[v * 3], ny = normals[v * 3 + 1], nz = normals[v * 3 + 2];
+    let x = tan[v * 3], y = tan[v * 3 + 1], z = tan[v * 3 + 2];
+
+    // Gram-Schmidt against the normal to remove any residual drift
+    const d = nx * x + ny * y + nz * z;
+    x -= nx * d; y -= ny * d; z -= nz * d;
+    let len = Math.sqrt(x * x + y * y + z * z);
+    if (len < 1e-8) {
+      // Pick any direction perpendicular to the normal
+      [x, y, z] = Math.abs(nx) < 0.9 ? [0, -nz, ny] : [nz, 0, -nx];
+      const d2 = nx * x + ny * y + nz * z;
+      x -= nx * d2; y -= ny * d2; z -= nz * d2;
+      len = Math.sqrt(x * x + y * y + z * z) || 1;
+    }
+    x /= len; y /= len; z /= len;
+
+    // Handedness: does cross(normal, tangent) point along the accumulated bitangent?
+    const cx = ny * z - nz * y, cy = nz * x - nx * z, cz = nx * y - ny * x;
+    const w = cx * bitan[v * 3] + cy * bitan[v * 3 + 1] + cz * bitan[v * 3 + 2] < 0 ? -1 : 1;
+
+    tangents[v * 4] = x;
+    tangents[v * 4 + 1] = y;
+    tangents[v * 4 + 2] = z;
+    tangents[v * 4 + 3] = w;
+  }
+
+  return tangents;
+}
+
+// Interior angle of the triangle at vertex v, used as its accumulation weight
+function cornerAngle(positions: Float32Array, v: number, a: number, b: number): number {
+  const ax = positions[a * 3] - positions[v * 3], ay = positions[a * 3 + 1] - positions[v * 3 + 1], az = positions[a * 3 + 2] - positions[v * 3 + 2];
+  const bx = positions[b * 3] - positions[v * 3], by = positions[b * 3 + 1] - positions[v * 3 + 1], bz = positions[b * 3 + 2] - positions[v * 3 + 2];
+  const lenA = Math.sqrt(ax * ax + ay * ay + az * az);
+  const lenB = Math.sqrt(bx * bx + by * by + bz * bz);
+  if (lenA === 0 || lenB === 0) return 0;
+  const cos = (ax * bx + ay * by + az * bz) / (lenA * lenB);
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+// Projects a face vector onto the plane of the vertex normal, normalizes it and adds it with a weight
+function accumulateProjected(target: Float32Array, v: number, x: number, y: number, z: number, nx: number, ny: number, nz: number, weight: number) {
+  const d = nx * x + ny * y + nz * z;
+  x -= nx * d; y -= ny * d; z -= nz * d;
+  const len = Math.sqrt(x * x + y * y + z * z);
+  if (len < 1e-12) return;
+  target[v * 3] += (x / len) * weight;
+  target[v * 3 + 1] += (y / len) * weight;
+  target[v * 3 + 2] += (z / len) * weight;
+}
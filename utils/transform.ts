@@ -0,0 +1,146 @@
+import { isTriangleList, type Geometry } from './geometry';
+import { primitiveRanges } from './meshOptimizer';
+
+// Column-major 4x4 matrix, as in glTF
+export type Mat4 = number[];
+
+export const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+export interface Trs {
+  translation: [number, number, number];
+  rotation?: [number, number, number, number]; // Quaternion [x, y, z, w]
+  scale?: [number, number, number];
+}
+
+export function composeTrs(trs: Trs): Mat4 {
+  const [x, y, z, w] = trs.rotation || [0, 0, 0, 1];
+  const [sx, sy, sz] = trs.scale || [1, 1, 1];
+  const [tx, ty, tz] = trs.translation;
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+}
+
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) out[col * 4 + row] += a[k * 4 + row] * b[col * 4 + k];
+    }
+  }
+  return out;
+}
+
+// Cofactor matrix of the upper 3x3 (row-major), which transforms normals up to scale
+export function normalMatrix(m: Mat4): { matrix: number[]; determinant: number } {
+  const a = m[0], b = m[4], c = m[8];
+  const d = m[1], e = m[5], f = m[9];
+  const g = m[2], h = m[6], i = m[10];
+  const cofactors = [
+    e * i - f * h, f * g - d * i, d * h - e * g,
+    c * h - b * i, a * i - c * g, b * g - a * h,
+    b * f - c * e, c * d - a * f, a * e - b * d,
+  ];
+  return { matrix: cofactors, determinant: a * cofactors[0] + b * cofactors[1] + c * cofactors[2] };
+}
+
+/**
+ * Splits an affine matrix into translation, rotation and scale. Shear cannot be
+ * represented and is lost; a negative determinant becomes a negative x scale.
+ */
+export function decomposeMatrix(m: Mat4): Required<Trs> {
+  let sx = Math.hypot(m[0], m[1], m[2]);
+  const sy = Math.hypot(m[4], m[5], m[6]);
+  const sz = Math.hypot(m[8], m[9], m[10]);
+  if (normalMatrix(m).determinant < 0) sx = -sx;
+
+  // Rotation matrix entries r<row><col> with the scale divided out
+  const r00 = m[0] / (sx || 1), r10 = m[1] / (sx || 1), r20 = m[2] / (sx || 1);
+  const r01 = m[4] / (sy || 1), r11 = m[5] / (sy || 1), r21 = m[6] / (sy || 1);
+  const r02 = m[8] / (sz || 1), r12 = m[9] / (sz || 1), r22 = m[10] / (sz || 1);
+
+  let rotation: [number, number, number, number];
+  const trace = r00 + r11 + r22;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    rotation = [(r21 - r12) * s, (r02 - r20) * s, (r10 - r01) * s, 0.25 / s];
+  } else if (r00 > r11 && r00 > r22) {
+    const s = 2 * Math.sqrt(1 + r00 - r11 - r22);
+    rotation = [0.25 * s, (r01 + r10) / s, (r02 + r20) / s, (r21 - r12) / s];
+  } else if (r11 > r22) {
+    const s = 2 * Math.sqrt(1 + r11 - r00 - r22);
+    rotation = [(r01 + r10) / s, 0.25 * s, (r12 + r21) / s, (r02 - r20) / s];
+  } else {
+    const s = 2 * Math.sqrt(1 + r22 - r00 - r11);
+    rotation = [(r02 + r20) / s, (r12 + r21) / s, 0.25 * s, (r10 - r01) / s];
+  }
+  const length = Math.hypot(...rotation) || 1;
+
+  return {
+    translation: [m[12], m[13], m[14]],
+    rotation: rotation.map(q => q / length) as [number, number, number, number],
+    scale: [sx, sy, sz],
+  };
+}
+
+/**
+ * Applies a transform to a geometry's positions, normals and tangents. Mirroring
+ * transforms also reverse the triangle winding so faces keep pointing outwards.
+ */
+export function transformGeometry(geometry: Geometry, m: Mat4): Geometry {
+  const { positions, normals, tangents } = geometry;
+  const { matrix: n, determinant } = normalMatrix(m);
+  const mirrored = determinant < 0;
+  const sign = mirrored ? -1 : 1;
+
+  const newPositions = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+    newPositions[i] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    newPositions[i + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    newPositions[i + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+
+  const newNormals = new Float32Array(normals.length);
+  for (let i = 0; i < normals.length; i += 3) {
+    const x = normals[i], y = normals[i + 1], z = normals[i + 2];
+    const nx = (n[0] * x + n[1] * y + n[2] * z) * sign;
+    const ny = (n[3] * x + n[4] * y + n[5] * z) * sign;
+    const nz = (n[6] * x + n[7] * y + n[8] * z) * sign;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    newNormals[i] = nx / length;
+    newNormals[i + 1] = ny / length;
+    newNormals[i + 2] = nz / length;
+  }
+
+  let newTangents: Float32Array | undefined;
+  if (tangents) {
+    newTangents = new Float32Array(tangents.length);
+    for (let i = 0; i < tangents.length; i += 4) {
+      const x = tangents[i], y = tangents[i + 1], z = tangents[i + 2];
+      const tx = m[0] * x + m[4] * y + m[8] * z;
+      const ty = m[1] * x + m[5] * y + m[9] * z;
+      const tz = m[2] * x + m[6] * y + m[10] * z;
+      const length = Math.hypot(tx, ty, tz) || 1;
+      newTangents[i] = tx / length;
+      newTangents[i + 1] = ty / length;
+      newTangents[i + 2] = tz / length;
+      newTangents[i + 3] = tangents[i + 3] * sign;
+    }
+  }
+
+  let indices = geometry.indices;
+  if (mirrored) {
+    indices = indices.slice();
+    for (const range of primitiveRanges(geometry).filter(isTriangleList)) {
+      for (let i = range.indicesOffset; i + 2 < range.indicesOffset + range.indicesCount; i += 3) {
+        [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+      }
+    }
+  }
+
+  return { ...geometry, positions: newPositions, normals: newNormals, tangents: newTangents, indices };
+}
@@ -0,0 +1,97 @@
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using forward slashes
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Packs files into a ZIP archive. Entries are stored without compression, which
+ * keeps the writer small and synchronous; texture images are already compressed.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const records = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data), offset: 0 }));
+
+  const localSize = records.reduce((acc, r) => acc + 30 + r.nameBytes.length + r.data.length, 0);
+  const centralSize = records.reduce((acc, r) => acc + 46 + r.nameBytes.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  // Local file headers followed by the file data
+  for (const r of records) {
+    r.offset = offset;
+    view.setUint32(offset, 0x04034B50, true); // Signature
+    view.setUint16(offset + 4, 20, true);     // Version needed to extract (2.0)
+    view.setUint16(offset + 6, 0x0800, true); // Flags: UTF-8 file names
+    view.setUint16(offset + 8, 0, true);      // Compression: stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, r.crc, true);
+    view.setUint32(offset + 18, r.data.length, true); // Compressed size
+    view.setUint32(offset + 22, r.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, r.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);     // Extra field length
+    output.set(r.nameBytes, offset + 30);
+    output.set(r.data, offset + 30 + r.nameBytes.length);
+    offset += 30 + r.nameBytes.length + r.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const r of records) {
+    view.setUint32(offset, 0x02014B50, true); // Signature
+    view.setUint16(offset + 4, 20, true);     // Version made by
+    view.setUint16(offset + 6, 20, true);     // Version needed to extract
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, r.crc, true);
+    view.setUint32(offset + 20, r.data.length, true);
+    view.setUint32(offset + 24, r.data.length, true);
+    view.setUint16(offset + 28, r.nameBytes.length, true);
+    // Extra field, comment, disk number, internal and external attributes stay zero
+    view.setUint32(offset + 42, r.offset, true);
+    output.set(r.nameBytes, offset + 46);
+    offset += 46 + r.nameBytes.length;
+  }
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054B50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}